@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { Household, Expense, Notification } from './types';
+import { Household, Expense, Income, Notification, StatementImport } from './types';
 import Dashboard from './components/Dashboard';
 import ExpenseTracker from './components/ExpenseTracker';
 import BucketGoals from './components/BucketGoals';
@@ -7,9 +7,12 @@ import TripPlanner from './components/TripPlanner';
 import AiReport from './components/AiReport';
 import Settings from './components/Settings';
 import AddExpenseModal from './components/AddExpenseModal';
-import { BellIcon, ChartIcon, Cog6ToothIcon, DashboardIcon, MoneyIcon, PiggyBankIcon, PlaneIcon, PlusIcon, ArrowUpTrayIcon, ArrowPathIcon, LightBulbIcon, ChatBubbleBottomCenterTextIcon, MenuIcon, XIcon, LogoutIcon } from './components/icons/Icons';
+import Balances from './components/Balances';
+import { BellIcon, ChartIcon, Cog6ToothIcon, DashboardIcon, MoneyIcon, PiggyBankIcon, PlaneIcon, PlusIcon, ArrowUpTrayIcon, ArrowPathIcon, LightBulbIcon, ChatBubbleBottomCenterTextIcon, MenuIcon, XIcon, LogoutIcon, ScaleIcon } from './components/icons/Icons';
 import NotificationPanel from './components/NotificationPanel';
 import { detectAnomalousExpense } from './services/geminiService';
+import { configureAiProvider, configureAiConsent, configureAiCallLimit, setAiConsentPrompt, withLocalFallback } from './services/ai';
+import { AI_FEATURES, AI_PROVIDERS } from './constants';
 import FileImport from './components/FileImport';
 import Subscriptions from './components/Subscriptions';
 import SavingsCoach from './components/SavingsCoach';
@@ -17,10 +20,12 @@ import AiChat from './components/AiChat';
 import Button from './components/common/Button';
 import * as db from './services/db';
 import * as auth from './services/authService';
+import { getAncestorIds, getRolledUpSpent, getCategoryLabel } from './utils/categoryUtils';
+import { detectAnomalyLocally } from './utils/anomalyDetection';
 import SignUp from './components/auth/SignUp';
 import Login from './components/auth/Login';
 
-export type View = 'dashboard' | 'expenses' | 'goals' | 'trips' | 'reports' | 'settings' | 'import' | 'subscriptions' | 'savings';
+export type View = 'dashboard' | 'expenses' | 'balances' | 'goals' | 'trips' | 'reports' | 'settings' | 'import' | 'subscriptions' | 'savings';
 
 const formatCurrencyForNotif = (amountInCents: number): string => {
     const amount = amountInCents / 100;
@@ -34,14 +39,28 @@ const LoadingScreen: React.FC<{ message: string }> = ({ message }) => (
     </div>
 );
 
+const DatabaseErrorScreen: React.FC<{ error: string }> = ({ error }) => (
+    <div className="flex flex-col justify-center items-center h-screen text-white gap-4 p-6 text-center">
+        <h2 className="text-2xl font-bold">Your data couldn't be opened</h2>
+        <p className="text-gray-300 max-w-xl">
+            Nothing has been changed: the database is left as it was, and a backup is kept from before any update was attempted.
+            Reloading may help if this was a network problem.
+        </p>
+        <pre className="text-xs text-pink-300 bg-slate-800/50 p-3 rounded-lg max-w-xl whitespace-pre-wrap break-words">{error}</pre>
+        <Button onClick={() => window.location.reload()}>Reload</Button>
+    </div>
+);
+
 const App: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [hasAccount, setHasAccount] = useState(false);
   const [isLoadingAuth, setIsLoadingAuth] = useState(true);
   
   const [household, setHousehold] = useState<Household | null>(null);
+  const [dbError, setDbError] = useState<string | null>(null);
   const [currentView, setCurrentView] = useState<View>('dashboard');
   const [isAddExpenseModalOpen, setAddExpenseModalOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [isNotificationPanelOpen, setNotificationPanelOpen] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isMobileSidebarOpen, setMobileSidebarOpen] = useState(false);
@@ -63,13 +82,40 @@ const App: React.FC = () => {
 
   const reloadData = useCallback(async () => {
     const data = await db.loadHouseholdData();
+    if (data) {
+        configureAiProvider(data);
+        configureAiConsent(data.aiConsent);
+        configureAiCallLimit(data.aiDailyCallLimit);
+    }
     setHousehold(data);
   }, []);
 
+  // Asked once per feature, the first time it would send anything; the answer can be changed in Settings.
+  useEffect(() => {
+    setAiConsentPrompt(async feature => {
+        const { label, sends } = AI_FEATURES.find(f => f.feature === feature)!;
+        const provider = AI_PROVIDERS.find(p => p.id === household?.aiProvider)?.label || 'the AI provider';
+        const allowed = window.confirm(
+            `${label} sends ${sends} to ${provider}.\n\n` +
+            `Member names are replaced with "Member A", "Member B"… and UPI IDs, account and card numbers are removed first. ` +
+            `Everything sent is kept in a log under AI Privacy in Settings.\n\nAllow ${label} to use AI?`
+        );
+        await db.setAiConsent(feature, allowed);
+        await reloadData();
+        return allowed;
+    });
+    return () => setAiConsentPrompt(null);
+  }, [household?.aiProvider, reloadData]);
+
   useEffect(() => {
     const init = async () => {
         if (isAuthenticated) {
-            await db.initDB();
+            try {
+                await db.initDB();
+            } catch (error) {
+                setDbError(String(error instanceof Error ? error.message : error));
+                return;
+            }
             await reloadData();
         }
     };
@@ -79,7 +125,11 @@ const App: React.FC = () => {
   const handleSignUp = async (name: string, pass: string) => {
     const success = await auth.signUp(name, pass);
     if(success) {
-      await db.initDB(); // Creates and seeds the DB for the new user
+      try {
+          await db.initDB(); // Creates and seeds the DB for the new user
+      } catch (error) {
+          setDbError(String(error instanceof Error ? error.message : error));
+      }
       setIsAuthenticated(true);
       setHasAccount(true);
     }
@@ -110,71 +160,134 @@ const App: React.FC = () => {
           : <SignUp onSignUp={handleSignUp} />;
   }
 
+  if (dbError) {
+    return <DatabaseErrorScreen error={dbError} />;
+  }
+
   if (!household) {
     return <LoadingScreen message="Loading Financial Data..." />;
   }
 
   const unreadNotificationsCount = household.notifications.filter(n => !n.isRead).length;
 
-  const handleAddExpense = async (newExpense: Omit<Expense, 'id'>) => {
-    const expenseWithId: Expense = {
-        ...newExpense,
-        id: `exp-${crypto.randomUUID()}`
-    };
-
-    const notificationsToAdd: Notification[] = [];
-
-    // 1. Budget Alert Check
-    const budget = household.budgets.find(b => b.categoryId === newExpense.categoryId);
-    if (budget && budget.amount > 0) {
-        const now = new Date();
-        const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-        const expensesForCategoryThisMonth = household.expenses.filter(
-            e => e.categoryId === newExpense.categoryId && new Date(e.date) >= startOfMonth
-        );
-        const spentBefore = expensesForCategoryThisMonth.reduce((sum, e) => sum + e.amount, 0);
-        const spentAfter = spentBefore + newExpense.amount;
+  // Budget alerts for expenses being added to this month's spending, in place of any `replacedExpenses`
+  // they are edits of, so that only a change that crosses a threshold alerts. Sub-category spending also
+  // counts towards any budget set on a parent category, and each budget is alerted at most once.
+  const buildBudgetAlerts = (addedExpenses: Expense[], otherExpenses: Expense[], replacedExpenses: Expense[] = []): Notification[] => {
+    const now = new Date();
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const isThisMonth = (e: Expense) => new Date(e.date) >= startOfMonth;
+    const otherExpensesThisMonth = otherExpenses.filter(isThisMonth);
+    const addedThisMonth = addedExpenses.filter(isThisMonth);
+    const replacedThisMonth = replacedExpenses.filter(isThisMonth);
+    const budgetedCategoryIds = new Set(addedThisMonth.flatMap(e => [e.categoryId, ...getAncestorIds(e.categoryId, household.categories)]));
+    return [...budgetedCategoryIds].flatMap((budgetCategoryId): Notification[] => {
+        const budget = household.budgets.find(b => b.categoryId === budgetCategoryId);
+        if (!budget || budget.amount <= 0) return [];
+        const spentBefore = getRolledUpSpent([...otherExpensesThisMonth, ...replacedThisMonth], budgetCategoryId, household.categories);
+        const spentAfter = getRolledUpSpent([...otherExpensesThisMonth, ...addedThisMonth], budgetCategoryId, household.categories);
         const ninetyPercentBudget = budget.amount * 0.9;
-        const categoryName = household.categories.find(c => c.id === newExpense.categoryId)?.name || 'a category';
+        const categoryName = getCategoryLabel(budgetCategoryId, household.categories);
 
         if (spentBefore < budget.amount && spentAfter >= budget.amount) {
-            notificationsToAdd.push({ id: `notif-budget-exceeded-${crypto.randomUUID()}`, message: `You've exceeded your ${formatCurrencyForNotif(budget.amount)} budget for ${categoryName}!`, date: new Date().toISOString(), type: 'error', isRead: false });
+            return [{ id: `notif-budget-exceeded-${crypto.randomUUID()}`, message: `You've exceeded your ${formatCurrencyForNotif(budget.amount)} budget for ${categoryName}!`, date: new Date().toISOString(), type: 'error', isRead: false }];
         } else if (spentBefore < ninetyPercentBudget && spentAfter >= ninetyPercentBudget && spentAfter < budget.amount) {
-            notificationsToAdd.push({ id: `notif-budget-warning-${crypto.randomUUID()}`, message: `You're approaching your ${formatCurrencyForNotif(budget.amount)} budget for ${categoryName}.`, date: new Date().toISOString(), type: 'warning', isRead: false });
+            return [{ id: `notif-budget-warning-${crypto.randomUUID()}`, message: `You're approaching your ${formatCurrencyForNotif(budget.amount)} budget for ${categoryName}.`, date: new Date().toISOString(), type: 'warning', isRead: false }];
         }
-    }
+        return [];
+    });
+  };
 
-    // 2. Anomaly Detection Check
+  // An alert when the expense is unusually large compared to the rest of its category. Without `askAi`
+  // the check is only made on this device, as for bulk imports that would otherwise use up the daily AI limit.
+  const checkForAnomaly = async (expense: Expense, otherExpenses: Expense[], askAi = true): Promise<Notification | null> => {
+    const checkLocally = () => detectAnomalyLocally(otherExpenses.filter(e => e.categoryId === expense.categoryId), expense, getCategoryLabel(expense.categoryId, household.categories));
     try {
-        const anomalyResult = await detectAnomalousExpense(household, expenseWithId);
-        if (anomalyResult.isAnomalous) {
-            notificationsToAdd.push({ id: `notif-anomaly-${crypto.randomUUID()}`, message: `Unusual Spending Alert: ${anomalyResult.reasoning}`, date: new Date().toISOString(), type: 'warning', isRead: false });
+        const anomalyResult = askAi
+            ? await withLocalFallback(() => detectAnomalousExpense({ ...household, expenses: otherExpenses }, expense), checkLocally)
+            : { value: checkLocally(), fallbackReason: null };
+        if (anomalyResult.value.isAnomalous) {
+            const label = !askAi || anomalyResult.fallbackReason ? 'Unusual Spending Alert (checked on this device without AI)' : 'Unusual Spending Alert';
+            return { id: `notif-anomaly-${crypto.randomUUID()}`, message: `${label}: ${anomalyResult.value.reasoning}`, date: new Date().toISOString(), type: 'warning', isRead: false };
         }
     } catch (error) {
         console.error("Failed to check for anomalous spending:", error);
     }
+    return null;
+  };
+
+  // Builds budget and anomaly alerts for an expense that is being added, or edited from `original`.
+  // An edited expense is excluded from the history it is compared against.
+  const buildExpenseNotifications = async (expense: Expense, original?: Expense): Promise<Notification[]> => {
+    const otherExpenses = household.expenses.filter(e => e.id !== expense.id);
+    const anomalyAlert = await checkForAnomaly(expense, otherExpenses);
+    return [...buildBudgetAlerts([expense], otherExpenses, original ? [original] : []), ...(anomalyAlert ? [anomalyAlert] : [])];
+  };
+
+  const handleAddExpense = async (newExpense: Omit<Expense, 'id'>) => {
+    const expenseWithId: Expense = {
+        ...newExpense,
+        id: `exp-${crypto.randomUUID()}`
+    };
+    const notificationsToAdd = await buildExpenseNotifications(expenseWithId);
+    return updateHouseholdData(() => db.addExpense(expenseWithId, notificationsToAdd));
+  };
+
+  const handleAddIncome = async (newIncome: Omit<Income, 'id'>) => {
+    return updateHouseholdData(() => db.addIncome({ ...newIncome, id: `inc-${crypto.randomUUID()}` }));
+  };
+
+  // Saves a reviewed bank statement import in a single transaction. Budgets are checked against the
+  // whole import at once. Each row is checked for unusual spending on this device rather than with
+  // one AI call per row.
+  const handleImportTransactions = async ({ batches, expenses: newExpenses, incomes: newIncomes, accountMemberUpdates }: StatementImport) => {
+    const expenses: Expense[] = newExpenses.map(e => ({ ...e, id: `exp-${crypto.randomUUID()}` }));
+    const incomes: Income[] = newIncomes.map(i => ({ ...i, id: `inc-${crypto.randomUUID()}` }));
+    const anomalyAlerts = await Promise.all(expenses.map(e => checkForAnomaly(e, household.expenses, false)));
+    const notificationsToAdd = [
+        ...buildBudgetAlerts(expenses, household.expenses),
+        ...anomalyAlerts.filter((n): n is Notification => n !== null),
+    ];
+    return updateHouseholdData(() => db.importStatementTransactions(batches, expenses, incomes, accountMemberUpdates, notificationsToAdd));
+  };
 
-    await db.addExpense(expenseWithId, notificationsToAdd);
-    await reloadData();
+  const handleUpdateExpense = async (updatedExpense: Expense) => {
+    const original = [...household.expenses, ...household.trips.flatMap(t => t.expenses)].find(e => e.id === updatedExpense.id);
+    // Alerts only need re-evaluating when the amount or category changed.
+    const needsRecheck = !original || original.amount !== updatedExpense.amount || original.categoryId !== updatedExpense.categoryId;
+    const notificationsToAdd = needsRecheck ? await buildExpenseNotifications(updatedExpense, original) : [];
+    return updateHouseholdData(() => db.updateExpense(updatedExpense, notificationsToAdd));
   };
   
-  const updateHouseholdData = async (data: Partial<Omit<Household, 'id'>>) => {
-      await db.updateHousehold(data);
-      await reloadData();
+  // Components pass in a granular db mutation; the household is reloaded once it has been persisted.
+  // A failed update has been rolled back and is reported here, so callers only learn whether it was saved.
+  const updateHouseholdData = async (update: () => Promise<void>): Promise<boolean> => {
+      try {
+          await update();
+          return true;
+      } catch (error) {
+          console.error("Failed to save changes:", error);
+          alert(`Your changes couldn't be saved. ${error instanceof Error ? error.message : ''}`.trim());
+          return false;
+      } finally {
+          await reloadData();
+      }
   };
 
   const renderView = () => {
     switch (currentView) {
       case 'dashboard':
-        return <Dashboard household={household} />;
+        return <Dashboard household={household} onUpdate={updateHouseholdData} onEditExpense={setEditingExpense} />;
       case 'expenses':
-        return <ExpenseTracker household={household} onUpdate={updateHouseholdData} />;
+        return <ExpenseTracker household={household} onUpdate={updateHouseholdData} onEditExpense={setEditingExpense} />;
+      case 'balances':
+        return <Balances household={household} onUpdate={updateHouseholdData} />;
       case 'goals':
         return <BucketGoals household={household} onUpdate={updateHouseholdData} />;
       case 'trips':
           return <TripPlanner household={household} onUpdate={updateHouseholdData} />;
       case 'import':
-        return <FileImport household={household} onAddExpense={handleAddExpense} />;
+        return <FileImport household={household} onImport={handleImportTransactions} onUpdate={updateHouseholdData} />;
       case 'subscriptions':
         return <Subscriptions household={household} onUpdate={updateHouseholdData} />;
       case 'reports':
@@ -184,7 +297,7 @@ const App: React.FC = () => {
       case 'settings':
         return <Settings household={household} onUpdate={updateHouseholdData} />;
       default:
-        return <Dashboard household={household} />;
+        return <Dashboard household={household} onUpdate={updateHouseholdData} onEditExpense={setEditingExpense} />;
     }
   };
 
@@ -226,6 +339,7 @@ const App: React.FC = () => {
         <nav className="space-y-2 pt-4">
           <NavItem view="dashboard" label="Dashboard" icon={DashboardIcon} />
           <NavItem view="expenses" label="Expenses" icon={MoneyIcon} />
+          <NavItem view="balances" label="Balances" icon={ScaleIcon} />
           <NavItem view="subscriptions" label="Subscriptions" icon={ArrowPathIcon} />
           <NavItem view="goals" label="Goals" icon={PiggyBankIcon} />
           <NavItem view="trips" label="Trips" icon={PlaneIcon} />
@@ -283,12 +397,19 @@ const App: React.FC = () => {
           </div>
       </main>
       
-      {isAddExpenseModalOpen && (
+      {(isAddExpenseModalOpen || editingExpense) && (
         <AddExpenseModal
-          isOpen={isAddExpenseModalOpen}
-          onClose={() => setAddExpenseModalOpen(false)}
+          key={editingExpense?.id || 'new'}
+          isOpen={isAddExpenseModalOpen || !!editingExpense}
+          onClose={() => {
+            setAddExpenseModalOpen(false);
+            setEditingExpense(null);
+          }}
           household={household}
           onAddExpense={handleAddExpense}
+          onAddIncome={handleAddIncome}
+          expense={editingExpense}
+          onUpdateExpense={handleUpdateExpense}
         />
       )}
 
@@ -1,21 +1,36 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Household, Expense, Split } from '../types';
-import { analyzeReceiptWithGemini } from '../services/geminiService';
+import { Household, Expense, Split, SplitMode, Income, IncomeSource } from '../types';
+import { INCOME_SOURCES } from '../constants';
+import { analyzeReceipt } from '../services/geminiService';
+import { getAiErrorMessage } from '../services/ai';
 import Modal from './common/Modal';
 import Button from './common/Button';
 import { CameraIcon, SparklesIcon } from './icons/Icons';
 import SkeletonLoader from './common/SkeletonLoader';
-import { suggestCategory } from '../utils/expenseUtils';
+import { suggestCategory, getSelectableCategories } from '../utils/expenseUtils';
+import { sortCategoriesHierarchically } from '../utils/categoryUtils';
+import { allocateByWeights, validateSplitWeights, getSavedWeights } from '../utils/splitUtils';
 
 interface AddExpenseModalProps {
   isOpen: boolean;
   onClose: () => void;
   household: Household;
   onAddExpense: (expense: Omit<Expense, 'id'>) => void;
+  onAddIncome: (income: Omit<Income, 'id'>) => void;
+  expense?: Expense | null; // set to edit an existing expense
+  onUpdateExpense?: (expense: Expense) => void;
 }
 
 const formatCurrencyForInput = (amountInCents: number): string => (amountInCents / 100).toFixed(2);
 
+const SPLIT_MODES: { mode: SplitMode; label: string }[] = [
+  { mode: 'exact', label: 'Exact' },
+  { mode: 'equal', label: 'Equally' },
+  { mode: 'except', label: 'Except' },
+  { mode: 'percentage', label: '%' },
+  { mode: 'shares', label: 'Shares' },
+];
+
 const ReceiptAnalysisSkeleton: React.FC = () => (
     <div className="space-y-4">
         <div>
@@ -34,15 +49,25 @@ const ReceiptAnalysisSkeleton: React.FC = () => (
 );
 
 
-const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, household, onAddExpense }) => {
-  const [description, setDescription] = useState('');
-  const [amount, setAmount] = useState('');
-  const [categoryId, setCategoryId] = useState(household.categories[0]?.id || '');
-  const [memberId, setMemberId] = useState(household.members[0]?.id || ''); // Payer
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, household, onAddExpense, onAddIncome, expense, onUpdateExpense }) => {
+  const [entryType, setEntryType] = useState<'expense' | 'income'>('expense');
+  const [incomeSource, setIncomeSource] = useState<IncomeSource>('salary');
+  // Editing always stays an expense; new entries can be recorded as income instead.
+  const isIncome = !expense && entryType === 'income';
+  const [description, setDescription] = useState(expense?.description || '');
+  const [amount, setAmount] = useState(expense ? formatCurrencyForInput(expense.amount) : '');
+  const [categoryId, setCategoryId] = useState(expense?.categoryId || getSelectableCategories(household.categories)[0]?.id || '');
+  const [memberId, setMemberId] = useState(expense?.memberId || household.members[0]?.id || ''); // Payer
+  const [date, setDate] = useState((expense ? new Date(expense.date) : new Date()).toISOString().split('T')[0]);
+  const [notes, setNotes] = useState(expense?.notes || '');
   const [image, setImage] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [splits, setSplits] = useState<Split[]>([]);
+  const [splits, setSplits] = useState<Split[]>([]); // exact amounts, used in 'exact' mode
+  const [splitMode, setSplitMode] = useState<SplitMode>(expense?.splitMode || 'exact');
+  // Percentages, share counts, or 1/0 for who is included, depending on the split mode.
+  const [splitWeights, setSplitWeights] = useState<Record<string, number>>(() =>
+    expense?.splitMode ? getSavedWeights(expense.splits, household.members.map(m => m.id)) : {}
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const totalAmountCents = useMemo(() => Math.round(parseFloat(amount || '0') * 100), [amount]);
@@ -50,34 +75,49 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
   useEffect(() => {
     // This effect runs when the modal opens, or when the payer/total amount changes.
     // It resets the splits so the payer covers 100% of the cost by default.
+    // When editing, the saved splits are kept as long as the amount and payer are unchanged.
     if (isOpen) {
+        if (expense && totalAmountCents === expense.amount && memberId === expense.memberId) {
+            setSplits(household.members.map(member => ({
+                memberId: member.id,
+                amount: expense.splits.find(s => s.memberId === member.id)?.amount || 0,
+            })));
+            return;
+        }
         const defaultSplits = household.members.map(member => ({
             memberId: member.id,
             amount: member.id === memberId ? totalAmountCents : 0,
         }));
         setSplits(defaultSplits);
     }
-  }, [isOpen, amount, memberId, household.members]);
+  }, [isOpen, amount, memberId, household.members, expense]);
 
 
   useEffect(() => {
+    // Don't let the rules override the saved category of an expense being edited.
+    if (expense && description === expense.description) return;
     if (description && !isAnalyzing) {
       const suggestedCategoryId = suggestCategory(description, household.rules, household.categories);
       if (suggestedCategoryId) {
         setCategoryId(suggestedCategoryId);
       }
     }
-  }, [description, household.rules, household.categories, isAnalyzing]);
+  }, [description, household.rules, household.categories, isAnalyzing, expense]);
   
   const resetForm = () => {
     setDescription('');
     setAmount('');
-    setCategoryId(household.categories[0]?.id || '');
+    setCategoryId(getSelectableCategories(household.categories)[0]?.id || '');
     setMemberId(household.members[0]?.id || '');
     setDate(new Date().toISOString().split('T')[0]);
+    setNotes('');
     setImage(null);
     setIsAnalyzing(false);
     setSplits([]);
+    setSplitMode('exact');
+    setSplitWeights({});
+    setEntryType('expense');
+    setIncomeSource('salary');
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -89,18 +129,18 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
         setImage(imageData);
         setIsAnalyzing(true);
         try {
-          const result = await analyzeReceiptWithGemini(imageData, household);
+          const result = await analyzeReceipt(imageData, household);
           setDescription(result.description);
           setAmount(result.amount.toString());
           if (result.categoryName) {
-            const matchingCategory = household.categories.find(c => c.name.toLowerCase() === result.categoryName!.toLowerCase());
+            const matchingCategory = getSelectableCategories(household.categories).find(c => c.name.toLowerCase() === result.categoryName!.toLowerCase());
             if (matchingCategory) {
               setCategoryId(matchingCategory.id);
             }
           }
         } catch (error) {
             console.error("Receipt analysis failed:", error);
-            alert("Failed to analyze receipt. Please enter details manually.");
+            alert(getAiErrorMessage(error, "Failed to analyze receipt.") + " Please enter details manually.");
         } finally {
             setIsAnalyzing(false);
         }
@@ -109,7 +149,21 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
     }
   };
   
-  const totalSplitAmount = useMemo(() => splits.reduce((sum, split) => sum + split.amount, 0), [splits]);
+  const weightList = useMemo(
+    () => household.members.map(member => ({ memberId: member.id, weight: splitWeights[member.id] || 0 })),
+    [household.members, splitWeights]
+  );
+  const splitWeightError = splitMode === 'exact' ? null : validateSplitWeights(splitMode, weightList);
+
+  // Every mode other than 'exact' derives cent-exact amounts from the weights.
+  const effectiveSplits = useMemo(
+    () => splitMode === 'exact' ? splits : allocateByWeights(totalAmountCents, weightList),
+    [splitMode, splits, totalAmountCents, weightList]
+  );
+
+  const excludedMembers = household.members.filter(m => (splitWeights[m.id] || 0) === 0);
+
+  const totalSplitAmount = useMemo(() => effectiveSplits.reduce((sum, split) => sum + split.amount, 0), [effectiveSplits]);
   const remainingAmount = useMemo(() => totalAmountCents - totalSplitAmount, [totalAmountCents, totalSplitAmount]);
 
   const handleSplitAmountChange = (memberId: string, value: string) => {
@@ -121,51 +175,97 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
     );
   };
 
-  const handleSplitEqually = () => {
-    if (totalAmountCents <= 0 || household.members.length === 0) return;
-
-    const memberCount = household.members.length;
-    const baseAmount = Math.floor(totalAmountCents / memberCount);
-    const remainder = totalAmountCents % memberCount;
+  const handleSplitModeChange = (mode: SplitMode) => {
+    if (mode === splitMode) return;
+    if (mode === 'exact') {
+      // Start from whatever the previous mode worked out to.
+      setSplits(effectiveSplits.map(({ memberId, amount }) => ({ memberId, amount })));
+    } else if (mode === 'percentage') {
+      // Start with the payer covering everything.
+      setSplitWeights(Object.fromEntries(household.members.map(m => [m.id, m.id === memberId ? 100 : 0])));
+    } else {
+      setSplitWeights(Object.fromEntries(household.members.map(m => [m.id, 1])));
+    }
+    setSplitMode(mode);
+  };
 
-    const newSplits = household.members.map((member, index) => ({
-        memberId: member.id,
-        amount: baseAmount + (index < remainder ? 1 : 0),
-    }));
-    setSplits(newSplits);
+  const handleSplitWeightChange = (memberId: string, value: number) => {
+    setSplitWeights(prev => ({ ...prev, [memberId]: isNaN(value) ? 0 : value }));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!description.trim() || totalAmountCents <= 0 || !categoryId || !memberId || Math.abs(remainingAmount) > 0) {
+    if (isIncome) {
+      if (!description.trim() || totalAmountCents <= 0 || !memberId) {
+        alert("Please fill all fields.");
+        return;
+      }
+      onAddIncome({
+        description: description.trim(),
+        amount: totalAmountCents,
+        date: new Date(date).toISOString(),
+        memberId,
+        source: incomeSource,
+        notes: notes.trim() || undefined,
+      });
+      resetForm();
+      onClose();
+      return;
+    }
+
+    if (!description.trim() || totalAmountCents <= 0 || !categoryId || !memberId || Math.abs(remainingAmount) > 0 || splitWeightError) {
       alert("Please fill all fields and ensure the expense is fully split.");
       return;
     }
 
-    onAddExpense({
+    const expenseData: Omit<Expense, 'id'> = {
       description: description.trim(),
       amount: totalAmountCents,
       categoryId,
       memberId,
       date: new Date(date).toISOString(),
-      splits: splits.filter(s => s.amount > 0), // Only include splits with an amount
-    });
+      splits: effectiveSplits.filter(s => s.amount > 0), // Only include splits with an amount
+      splitMode: splitMode === 'exact' ? undefined : splitMode,
+      notes: notes.trim() || undefined,
+    };
+    if (expense) {
+      onUpdateExpense?.({ ...expenseData, id: expense.id });
+    } else {
+      onAddExpense(expenseData);
+    }
     resetForm();
     onClose();
   };
   
-  const isFormValid = description.trim() && totalAmountCents > 0 && categoryId && memberId && remainingAmount === 0;
+  const isFormValid = isIncome
+    ? description.trim() && totalAmountCents > 0 && memberId
+    : description.trim() && totalAmountCents > 0 && categoryId && memberId && remainingAmount === 0 && !splitWeightError;
 
   return (
-    <Modal isOpen={isOpen} onClose={() => { resetForm(); onClose(); }} title="Add New Expense">
+    <Modal isOpen={isOpen} onClose={() => { resetForm(); onClose(); }} title={expense ? 'Edit Expense' : isIncome ? 'Add Income' : 'Add New Expense'}>
       <form onSubmit={handleSubmit} className="space-y-4">
+        {!expense && (
+          <div className="flex bg-slate-800 rounded-lg p-1" role="group" aria-label="Entry type">
+            {(['expense', 'income'] as const).map(type => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setEntryType(type)}
+                className={`flex-1 py-1.5 text-sm font-semibold rounded-md capitalize transition-colors ${entryType === type ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        )}
+
         {image && <img src={image} alt="Receipt" className="rounded-lg max-h-40 w-auto mx-auto" />}
         
         {isAnalyzing ? <ReceiptAnalysisSkeleton /> : (
             <>
                 <div>
                   <label htmlFor="description" className="block text-sm font-medium text-gray-300">Description</label>
-                  <input type="text" id="description" value={description} onChange={e => setDescription(e.target.value)} placeholder="e.g., Weekly Groceries" className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required />
+                  <input type="text" id="description" value={description} onChange={e => setDescription(e.target.value)} placeholder={isIncome ? 'e.g., October Salary' : 'e.g., Weekly Groceries'} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required />
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -180,64 +280,141 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({ isOpen, onClose, hous
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {isIncome ? (
+                        <div>
+                            <label htmlFor="incomeSource" className="block text-sm font-medium text-gray-300">Source</label>
+                            <select id="incomeSource" value={incomeSource} onChange={e => setIncomeSource(e.target.value as IncomeSource)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required>
+                              {INCOME_SOURCES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                            </select>
+                        </div>
+                    ) : (
+                        <div>
+                            <label htmlFor="category" className="block text-sm font-medium text-gray-300">Category</label>
+                            <select id="category" value={categoryId} onChange={e => setCategoryId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required>
+                              {sortCategoriesHierarchically(getSelectableCategories(household.categories, categoryId)).map(cat => <option key={cat.id} value={cat.id}>{'\u00A0\u00A0'.repeat(cat.depth)}{cat.icon} {cat.name}</option>)}
+                            </select>
+                        </div>
+                    )}
                     <div>
-                        <label htmlFor="category" className="block text-sm font-medium text-gray-300">Category</label>
-                        <select id="category" value={categoryId} onChange={e => setCategoryId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required>
-                          {household.categories.map(cat => <option key={cat.id} value={cat.id}>{cat.icon} {cat.name}</option>)}
-                        </select>
-                    </div>
-                    <div>
-                        <label htmlFor="member" className="block text-sm font-medium text-gray-300">Paid By</label>
+                        <label htmlFor="member" className="block text-sm font-medium text-gray-300">{isIncome ? 'Received By' : 'Paid By'}</label>
                         <select id="member" value={memberId} onChange={e => setMemberId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required>
                           {household.members.map(mem => <option key={mem.id} value={mem.id}>{mem.name}</option>)}
                         </select>
                     </div>
                 </div>
+
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-300">Notes (optional)</label>
+                  <input type="text" id="notes" value={notes} onChange={e => setNotes(e.target.value)} placeholder="e.g., Paid in cash" className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" />
+                </div>
             </>
         )}
 
         {/* Split Expense Section */}
-        {totalAmountCents > 0 && (
+        {totalAmountCents > 0 && !isIncome && (
           <div className="pt-4 border-t border-slate-700">
             <div className="flex justify-between items-center mb-3">
               <h4 className="text-lg font-semibold text-white">Split Expense</h4>
-              <Button type="button" variant="secondary" size="sm" onClick={handleSplitEqually}>Split Equally</Button>
+              <div className="flex bg-slate-800 rounded-lg p-1" role="group" aria-label="Split mode">
+                {SPLIT_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => handleSplitModeChange(mode)}
+                    className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${splitMode === mode ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
             </div>
             <div className="space-y-2 max-h-40 overflow-y-auto pr-2">
-              {household.members.map(member => (
-                <div key={member.id} className="flex items-center gap-3">
-                  <img src={member.avatarUrl} alt={member.name} className="w-8 h-8 rounded-full" />
-                  <label htmlFor={`split-${member.id}`} className="flex-1 text-gray-300">{member.name}</label>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">₹</span>
-                    <input 
-                      type="number"
-                      id={`split-${member.id}`}
-                      value={formatCurrencyForInput(splits.find(s => s.memberId === member.id)?.amount || 0)}
-                      onChange={e => handleSplitAmountChange(member.id, e.target.value)}
-                      className="w-28 bg-slate-700 border-slate-600 rounded-md shadow-sm text-right pl-7"
-                      step="0.01"
-                    />
+              {household.members.map(member => {
+                const memberAmount = effectiveSplits.find(s => s.memberId === member.id)?.amount || 0;
+                return (
+                  <div key={member.id} className="flex items-center gap-3">
+                    <img src={member.avatarUrl} alt={member.name} className="w-8 h-8 rounded-full" />
+                    <label htmlFor={`split-${member.id}`} className="flex-1 text-gray-300">{member.name}</label>
+                    {splitMode === 'exact' && (
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">₹</span>
+                        <input 
+                          type="number"
+                          id={`split-${member.id}`}
+                          value={formatCurrencyForInput(memberAmount)}
+                          onChange={e => handleSplitAmountChange(member.id, e.target.value)}
+                          className="w-28 bg-slate-700 border-slate-600 rounded-md shadow-sm text-right pl-7"
+                          step="0.01"
+                        />
+                      </div>
+                    )}
+                    {splitMode === 'equal' && (
+                      <input
+                        type="checkbox"
+                        id={`split-${member.id}`}
+                        checked={(splitWeights[member.id] || 0) > 0}
+                        onChange={e => handleSplitWeightChange(member.id, e.target.checked ? 1 : 0)}
+                        className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500"
+                      />
+                    )}
+                    {splitMode === 'except' && (
+                      <input
+                        type="checkbox"
+                        id={`split-${member.id}`}
+                        checked={(splitWeights[member.id] || 0) === 0}
+                        onChange={e => handleSplitWeightChange(member.id, e.target.checked ? 0 : 1)}
+                        className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500"
+                      />
+                    )}
+                    {(splitMode === 'percentage' || splitMode === 'shares') && (
+                      <div className="relative">
+                        <input
+                          type="number"
+                          id={`split-${member.id}`}
+                          value={splitWeights[member.id] ?? 0}
+                          onChange={e => handleSplitWeightChange(member.id, parseFloat(e.target.value))}
+                          className="w-24 bg-slate-700 border-slate-600 rounded-md shadow-sm text-right pr-7"
+                          min="0"
+                          step={splitMode === 'percentage' ? '0.01' : '1'}
+                        />
+                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">{splitMode === 'percentage' ? '%' : '×'}</span>
+                      </div>
+                    )}
+                    {splitMode !== 'exact' && (
+                      <span className="w-24 text-right font-mono text-gray-300">₹{formatCurrencyForInput(memberAmount)}</span>
+                    )}
                   </div>
-                </div>
-              ))}
-            </div>
-            <div className={`mt-3 p-2 rounded-lg text-sm font-medium text-center ${remainingAmount === 0 ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'}`}>
-                {remainingAmount === 0 ? 'Splits match total' : `₹${formatCurrencyForInput(Math.abs(remainingAmount))} ${remainingAmount > 0 ? 'left to assign' : 'over-assigned'}`}
+                );
+              })}
             </div>
+            {splitMode === 'equal' && <p className="text-xs text-gray-500 mt-2">Untick anyone who should be left out of this expense.</p>}
+            {splitMode === 'except' && (
+              <p className="text-xs text-gray-500 mt-2">
+                {excludedMembers.length > 0 ? `Everyone except ${excludedMembers.map(m => m.name).join(', ')}, equally.` : 'Tick anyone who should be left out of this expense.'}
+              </p>
+            )}
+            {splitWeightError ? (
+                <div className="mt-3 p-2 rounded-lg text-sm font-medium text-center bg-red-500/10 text-red-300">{splitWeightError}</div>
+            ) : (
+                <div className={`mt-3 p-2 rounded-lg text-sm font-medium text-center ${remainingAmount === 0 ? 'bg-green-500/10 text-green-300' : 'bg-red-500/10 text-red-300'}`}>
+                    {remainingAmount === 0 ? 'Splits match total' : `₹${formatCurrencyForInput(Math.abs(remainingAmount))} ${remainingAmount > 0 ? 'left to assign' : 'over-assigned'}`}
+                </div>
+            )}
           </div>
         )}
 
         <div className="flex flex-col-reverse sm:flex-row sm:justify-between sm:items-center pt-4 gap-3">
             <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
-            <Button type="button" variant="secondary" onClick={() => fileInputRef.current?.click()} className="w-full sm:w-auto">
-              <CameraIcon className="w-5 h-5" />
-              <span>Scan a receipt</span>
-            </Button>
+            {isIncome ? <div /> : (
+              <Button type="button" variant="secondary" onClick={() => fileInputRef.current?.click()} className="w-full sm:w-auto">
+                <CameraIcon className="w-5 h-5" />
+                <span>Scan a receipt</span>
+              </Button>
+            )}
             <div className="flex gap-3 w-full sm:w-auto">
                 <Button type="button" variant="secondary" onClick={() => { resetForm(); onClose(); }} className="w-1/2 sm:w-auto">Cancel</Button>
                 <Button type="submit" disabled={!isFormValid || isAnalyzing} className="w-1/2 sm:w-auto">
-                  {isAnalyzing ? 'Analyzing...' : 'Add Expense'}
+                  {isAnalyzing ? 'Analyzing...' : expense ? 'Save Changes' : isIncome ? 'Add Income' : 'Add Expense'}
                 </Button>
             </div>
         </div>
@@ -1,9 +1,12 @@
 import React, { useState, useCallback } from 'react';
 import { Household } from '../types';
 import { generateSpendingReport } from '../services/geminiService';
+import { getAiErrorMessage, withLocalFallback } from '../services/ai';
+import { buildLocalSpendingReport } from '../utils/localAdvice';
 import Card from './common/Card';
 import Button from './common/Button';
 import SkeletonLoader from './common/SkeletonLoader';
+import FallbackNotice from './common/FallbackNotice';
 import { SparklesIcon, DocumentDuplicateIcon } from './icons/Icons';
 
 interface AiReportProps {
@@ -128,18 +131,19 @@ const AiReport: React.FC<AiReportProps> = ({ household }) => {
   const [report, setReport] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
 
   const handleGenerateReport = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     setReport(null);
+    setFallbackReason(null);
     try {
-      // Simulate longer generation time
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      const result = await generateSpendingReport(household);
-      setReport(result);
+      const result = await withLocalFallback(() => generateSpendingReport(household), () => buildLocalSpendingReport(household));
+      setReport(result.value);
+      setFallbackReason(result.fallbackReason);
     } catch (err) {
-      setError('Failed to generate AI report. Please check your connection and try again.');
+      setError(getAiErrorMessage(err, 'Failed to generate AI report. Please check your connection and try again.'));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -174,6 +178,7 @@ const AiReport: React.FC<AiReportProps> = ({ household }) => {
                 
                 {report && (
                     <div className="max-w-none">
+                      {fallbackReason && <FallbackNotice reason={fallbackReason} className="mb-4" />}
                       {renderMarkdown(report)}
                     </div>
                 )}
@@ -0,0 +1,172 @@
+import React, { useState, useMemo } from 'react';
+import { Household, Settlement } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { ScaleIcon, TrashIcon } from './icons/Icons';
+import * as db from '../services/db';
+import { calculateBalances, suggestTransfers, Transfer } from '../utils/balanceUtils';
+
+const formatCurrency = (amountInCents: number): string => {
+  const amount = amountInCents / 100;
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+};
+
+interface BalancesProps {
+  household: Household;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
+}
+
+const Balances: React.FC<BalancesProps> = ({ household, onUpdate }) => {
+    const { members, settlements } = household;
+    const [fromMemberId, setFromMemberId] = useState(members[0]?.id || '');
+    const [toMemberId, setToMemberId] = useState(members[1]?.id || '');
+    const [amount, setAmount] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+
+    const balances = useMemo(() => calculateBalances(household), [household]);
+    const transfers = useMemo(() => suggestTransfers(balances), [balances]);
+
+    const getMemberName = (id: string) => members.find(m => m.id === id)?.name || 'Unknown';
+
+    const handleSettleTransfer = (transfer: Transfer) => {
+        const settlement: Settlement = {
+            id: `set-${crypto.randomUUID()}`,
+            ...transfer,
+            date: new Date().toISOString(),
+        };
+        onUpdate(() => db.addSettlement(settlement));
+    };
+
+    const handleRecordPayment = (e: React.FormEvent) => {
+        e.preventDefault();
+        const amountInCents = Math.round(parseFloat(amount) * 100);
+        if (!fromMemberId || !toMemberId || isNaN(amountInCents) || amountInCents <= 0) {
+            alert("Please choose both members and enter a valid amount.");
+            return;
+        }
+        if (fromMemberId === toMemberId) {
+            alert("A payment needs two different members.");
+            return;
+        }
+
+        const settlement: Settlement = {
+            id: `set-${crypto.randomUUID()}`,
+            fromMemberId,
+            toMemberId,
+            amount: amountInCents,
+            date: new Date(date).toISOString(),
+        };
+        onUpdate(() => db.addSettlement(settlement));
+        setAmount('');
+    };
+
+    const handleDeleteSettlement = (settlement: Settlement) => {
+        if (window.confirm(`Delete the ${formatCurrency(settlement.amount)} payment from ${getMemberName(settlement.fromMemberId)} to ${getMemberName(settlement.toMemberId)}?`)) {
+            onUpdate(() => db.deleteSettlement(settlement.id));
+        }
+    };
+
+    return (
+        <div className="animate-fade-in-up space-y-6">
+            <Card>
+                <h2 className="text-2xl font-bold text-white">Balances</h2>
+                <p className="text-gray-400 mt-1">Who owes whom across household and trip expenses, after recorded payments.</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mt-6">
+                    {members.map(member => {
+                        const balance = balances.get(member.id) || 0;
+                        return (
+                            <div key={member.id} className="flex items-center gap-3 p-3 bg-slate-800/50 rounded-lg">
+                                <img src={member.avatarUrl} alt={member.name} className="w-10 h-10 rounded-full" />
+                                <div>
+                                    <p className="font-semibold text-white">{member.name}</p>
+                                    {balance === 0 && <p className="text-sm text-gray-400">Settled up</p>}
+                                    {balance > 0 && <p className="text-sm text-teal-400">Is owed {formatCurrency(balance)}</p>}
+                                    {balance < 0 && <p className="text-sm text-pink-400">Owes {formatCurrency(-balance)}</p>}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </Card>
+
+            <Card>
+                <h3 className="text-xl font-bold text-white mb-4">Suggested Payments</h3>
+                {transfers.length > 0 ? (
+                    <div className="space-y-3">
+                        {transfers.map(transfer => (
+                            <div key={`${transfer.fromMemberId}-${transfer.toMemberId}`} className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
+                                <p className="text-gray-300">
+                                    <span className="font-semibold text-white">{getMemberName(transfer.fromMemberId)}</span>
+                                    {' pays '}
+                                    <span className="font-semibold text-white">{getMemberName(transfer.toMemberId)}</span>
+                                    {' '}
+                                    <span className="font-bold text-pink-400">{formatCurrency(transfer.amount)}</span>
+                                </p>
+                                <Button size="sm" onClick={() => handleSettleTransfer(transfer)}>Mark as Paid</Button>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="text-center py-6 text-gray-500">
+                        <ScaleIcon className="w-10 h-10 mx-auto mb-2 text-slate-600" />
+                        <p>Everyone is settled up.</p>
+                    </div>
+                )}
+            </Card>
+
+            <Card>
+                <h3 className="text-xl font-bold text-white mb-4">Record a Payment</h3>
+                <form onSubmit={handleRecordPayment} className="grid grid-cols-1 sm:grid-cols-5 gap-4 items-end">
+                    <div>
+                        <label htmlFor="settlementFrom" className="block text-sm font-medium text-gray-300">From</label>
+                        <select id="settlementFrom" value={fromMemberId} onChange={(e) => setFromMemberId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                            {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="settlementTo" className="block text-sm font-medium text-gray-300">To</label>
+                        <select id="settlementTo" value={toMemberId} onChange={(e) => setToMemberId(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+                            {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="settlementAmount" className="block text-sm font-medium text-gray-300">Amount (₹)</label>
+                        <input type="number" id="settlementAmount" value={amount} onChange={(e) => setAmount(e.target.value)} min="0.01" step="0.01" className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required />
+                    </div>
+                    <div>
+                        <label htmlFor="settlementDate" className="block text-sm font-medium text-gray-300">Date</label>
+                        <input type="date" id="settlementDate" value={date} onChange={(e) => setDate(e.target.value)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" required />
+                    </div>
+                    <Button type="submit">Record</Button>
+                </form>
+                <p className="text-xs text-gray-500 mt-2">Payments between members settle debts and are not counted as spending.</p>
+            </Card>
+
+            {settlements.length > 0 && (
+                <Card>
+                    <h3 className="text-xl font-bold text-white mb-4">Payment History</h3>
+                    <div className="space-y-2">
+                        {settlements.map(settlement => (
+                            <div key={settlement.id} className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
+                                <div>
+                                    <p className="text-white">
+                                        {getMemberName(settlement.fromMemberId)} paid {getMemberName(settlement.toMemberId)}
+                                    </p>
+                                    <p className="text-sm text-gray-400">{new Date(settlement.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}</p>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <p className="font-bold text-teal-400">{formatCurrency(settlement.amount)}</p>
+                                    <Button variant="danger" size="sm" onClick={() => handleDeleteSettlement(settlement)} className="p-2">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+export default Balances;
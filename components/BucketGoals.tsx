@@ -14,7 +14,7 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface BucketGoalsProps {
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const BucketGoals: React.FC<BucketGoalsProps> = ({ household, onUpdate }) => {
@@ -0,0 +1,212 @@
+import React, { useState, useMemo } from 'react';
+import { Household, BankProfile, CsvColumnMapping, CsvDateFormat } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { TrashIcon } from './icons/Icons';
+import * as db from '../services/db';
+import { applyCsvMapping, getHeaderSignature, StatementTransaction } from '../utils/csvImport';
+
+interface CsvColumnMapperProps {
+  rows: string[][];
+  fileName: string;
+  initialMapping: CsvColumnMapping;
+  detectedProfile?: BankProfile;
+  household: Household;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
+  onConfirm: (transactions: StatementTransaction[], bankProfileId?: string) => void; // the profile used or just saved, if any
+  onCancel: () => void;
+}
+
+const DATE_FORMATS: { value: CsvDateFormat; label: string }[] = [
+  { value: 'DMY', label: 'DD/MM/YYYY' },
+  { value: 'MDY', label: 'MM/DD/YYYY' },
+  { value: 'YMD', label: 'YYYY-MM-DD' },
+];
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+};
+
+const CsvColumnMapper: React.FC<CsvColumnMapperProps> = ({ rows, fileName, initialMapping, detectedProfile, household, onUpdate, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<CsvColumnMapping>(detectedProfile?.mapping || initialMapping);
+  const [profileId, setProfileId] = useState(detectedProfile?.id || '');
+  const [profileName, setProfileName] = useState(detectedProfile?.name || '');
+  const [saveProfile, setSaveProfile] = useState(!detectedProfile);
+
+  const columnCount = useMemo(() => Math.max(0, ...rows.map(r => r.length)), [rows]);
+  const headerRow = mapping.skipHeaderRows > 0 ? rows[mapping.skipHeaderRows - 1] : undefined;
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => ({
+    value: i,
+    label: headerRow?.[i] ? `${i + 1}: ${headerRow[i]}` : `Column ${i + 1}`,
+  }));
+
+  const result = useMemo(() => applyCsvMapping(rows, mapping), [rows, mapping]);
+
+  const updateMapping = <K extends keyof CsvColumnMapping>(field: K, value: CsvColumnMapping[K]) => {
+    setMapping(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    const profile = household.bankProfiles.find(p => p.id === id);
+    if (profile) {
+      setMapping(profile.mapping);
+      setProfileName(profile.name);
+    } else {
+      setProfileName('');
+    }
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = household.bankProfiles.find(p => p.id === profileId);
+    if (profile && window.confirm(`Delete the "${profile.name}" bank profile?`)) {
+      onUpdate(() => db.deleteBankProfile(profile.id));
+      setProfileId('');
+      setProfileName('');
+    }
+  };
+
+  const handleContinue = async () => {
+    let usedProfileId = profileId || undefined;
+    if (saveProfile && profileName.trim()) {
+      const profile: BankProfile = {
+        id: profileId || `bank-${crypto.randomUUID()}`,
+        name: profileName.trim(),
+        headerSignature: getHeaderSignature(rows, mapping.skipHeaderRows),
+        mapping,
+      };
+      if (await onUpdate(() => db.upsertBankProfile(profile))) usedProfileId = profile.id;
+    }
+    onConfirm(result.transactions, usedProfileId);
+  };
+
+  const renderColumnSelect = (id: string, label: string, field: 'dateColumn' | 'descriptionColumn' | 'amountColumn' | 'debitColumn' | 'creditColumn' | 'referenceColumn' | 'balanceColumn') => (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
+      <select
+        id={id}
+        value={mapping[field] ?? -1}
+        onChange={e => updateMapping(field, parseInt(e.target.value, 10))}
+        className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+      >
+        <option value={-1}>Not used</option>
+        {columnOptions.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <Card className="animate-fade-in-up">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Map Columns</h2>
+          <p className="text-gray-400 mt-1">
+            Tell us how "{fileName}" is laid out. {detectedProfile && <span className="text-teal-400">Recognised as {detectedProfile.name}.</span>}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={onCancel}>Start Over</Button>
+          <Button onClick={handleContinue} disabled={result.transactions.length === 0}>
+            Continue with {result.transactions.length} Transactions
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="bankProfile" className="block text-sm font-medium text-gray-300">Bank Profile</label>
+          <div className="flex gap-2 mt-1">
+            <select id="bankProfile" value={profileId} onChange={e => handleProfileChange(e.target.value)} className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm">
+              <option value="">New profile</option>
+              {household.bankProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            {profileId && (
+              <Button type="button" variant="danger" size="sm" onClick={handleDeleteProfile} className="p-2" title="Delete bank profile">
+                <TrashIcon className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label htmlFor="skipHeaderRows" className="block text-sm font-medium text-gray-300">Rows Before Transactions</label>
+          <input type="number" id="skipHeaderRows" min="0" value={mapping.skipHeaderRows} onChange={e => updateMapping('skipHeaderRows', Math.max(0, parseInt(e.target.value || '0', 10)))} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" />
+        </div>
+        <div>
+          <label htmlFor="skipFooterRows" className="block text-sm font-medium text-gray-300">Summary Rows at End</label>
+          <input type="number" id="skipFooterRows" min="0" value={mapping.skipFooterRows} onChange={e => updateMapping('skipFooterRows', Math.max(0, parseInt(e.target.value || '0', 10)))} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1" />
+        </div>
+
+        {renderColumnSelect('dateColumn', 'Date Column', 'dateColumn')}
+        <div>
+          <label htmlFor="dateFormat" className="block text-sm font-medium text-gray-300">Date Format</label>
+          <select id="dateFormat" value={mapping.dateFormat} onChange={e => updateMapping('dateFormat', e.target.value as CsvDateFormat)} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+            {DATE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+        </div>
+        {renderColumnSelect('descriptionColumn', 'Description Column', 'descriptionColumn')}
+
+        <div>
+          <label htmlFor="amountMode" className="block text-sm font-medium text-gray-300">Amounts</label>
+          <select id="amountMode" value={mapping.amountMode} onChange={e => updateMapping('amountMode', e.target.value as CsvColumnMapping['amountMode'])} className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1">
+            <option value="signed">One column, negative for debits</option>
+            <option value="debitCredit">Separate debit and credit columns</option>
+          </select>
+        </div>
+        {mapping.amountMode === 'signed' ? (
+          renderColumnSelect('amountColumn', 'Amount Column', 'amountColumn')
+        ) : (
+          <>
+            {renderColumnSelect('debitColumn', 'Debit Column', 'debitColumn')}
+            {renderColumnSelect('creditColumn', 'Credit Column', 'creditColumn')}
+          </>
+        )}
+        {renderColumnSelect('referenceColumn', 'Reference Column (optional)', 'referenceColumn')}
+        {renderColumnSelect('balanceColumn', 'Balance Column (optional)', 'balanceColumn')}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-4 p-3 bg-slate-800/50 rounded-lg">
+        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+          <span>{profileId ? 'Update this bank profile' : 'Save as a bank profile'}</span>
+        </label>
+        {saveProfile && (
+          <input type="text" value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="e.g., HDFC Savings" className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm" />
+        )}
+      </div>
+
+      <div className="mt-6">
+        <h3 className="text-lg font-semibold text-white mb-2">Preview</h3>
+        <p className="text-sm text-gray-400 mb-3">
+          {result.transactions.length} transactions read.
+          {result.skippedRows.length > 0 && (
+            <span className="text-yellow-400"> {result.skippedRows.length} rows skipped because their date or amount couldn't be read (lines {result.skippedRows.slice(0, 10).join(', ')}{result.skippedRows.length > 10 ? ', …' : ''}).</span>
+          )}
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-gray-400 uppercase bg-slate-700/50">
+              <tr>
+                <th className="p-2">Date</th>
+                <th className="p-2">Description</th>
+                <th className="p-2 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.transactions.slice(0, 8).map((t, index) => (
+                <tr key={index} className="border-b border-slate-700">
+                  <td className="p-2 whitespace-nowrap">{t.date}</td>
+                  <td className="p-2 text-gray-200">{t.description}</td>
+                  <td className={`p-2 text-right font-mono ${t.type === 'credit' ? 'text-teal-400' : 'text-pink-400'}`}>
+                    {t.type === 'credit' ? '+' : '-'}{formatCurrency(t.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default CsvColumnMapper;
@@ -1,11 +1,15 @@
 import React, { useMemo } from 'react';
-import { Household } from '../types';
+import { Household, Expense, Income } from '../types';
 import Card from './common/Card';
 import ProgressBar from './common/ProgressBar';
 import { timeAgo, formatDueDate } from '../utils/time';
 import TrendChart from './TrendChart';
 import { prepareTrendData } from '../utils/chartUtils';
-import { MoneyIcon, PiggyBankIcon, ArrowPathIcon } from './icons/Icons';
+import { getRolledUpSpent, getCategoryLabel } from '../utils/categoryUtils';
+import { getMonthlyCashFlow } from '../utils/cashFlowUtils';
+import { INCOME_SOURCES } from '../constants';
+import { MoneyIcon, PiggyBankIcon, ArrowPathIcon, TrashIcon } from './icons/Icons';
+import * as db from '../services/db';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -14,10 +18,12 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface DashboardProps {
   household: Household;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
+  onEditExpense: (expense: Expense) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ household }) => {
-    const { members, expenses, budgets, categories, bucketGoals, subscriptions } = household;
+const Dashboard: React.FC<DashboardProps> = ({ household, onUpdate, onEditExpense }) => {
+    const { members, expenses, incomes, budgets, categories, bucketGoals, subscriptions } = household;
 
     const expensesThisMonth = expenses
         .filter(exp => new Date(exp.date).getMonth() === new Date().getMonth());
@@ -35,6 +41,17 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
         .slice(0, 4);
         
     const trendData = prepareTrendData(expenses);
+
+    const cashFlow = useMemo(() => getMonthlyCashFlow(household), [household]);
+    const largestCashFlow = Math.max(1, ...cashFlow.flatMap(m => [m.income, m.spending]));
+
+    const recentIncomes = incomes.slice(0, 5);
+
+    const handleDeleteIncome = (income: Income) => {
+        if (window.confirm(`Delete "${income.description}" (${formatCurrency(income.amount)})?`)) {
+            onUpdate(() => db.deleteIncome(income.id));
+        }
+    };
     
     const spendingByMember = useMemo(() => {
         const memberSpending: { [key: string]: number } = {};
@@ -125,22 +142,71 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
             </div>
 
 
+            {/* Cash Flow & Income */}
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                <Card className="lg:col-span-3">
+                    <h3 className="text-xl font-bold text-white mb-4">Cash Flow</h3>
+                    <div className="space-y-4">
+                        {cashFlow.map(month => (
+                            <div key={month.label}>
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="font-semibold text-gray-300">{month.label}</span>
+                                    <span className={`text-sm font-bold ${month.net >= 0 ? 'text-teal-400' : 'text-pink-400'}`}>
+                                        {month.net >= 0 ? '+' : '-'}{formatCurrency(Math.abs(month.net))}
+                                    </span>
+                                </div>
+                                <div className="space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <div className="h-2 rounded-full bg-teal-500" style={{ width: `${(month.income / largestCashFlow) * 100}%` }} />
+                                        <span className="text-xs text-gray-400 whitespace-nowrap">In {formatCurrency(month.income)}</span>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <div className="h-2 rounded-full bg-pink-500" style={{ width: `${(month.spending / largestCashFlow) * 100}%` }} />
+                                        <span className="text-xs text-gray-400 whitespace-nowrap">Out {formatCurrency(month.spending)}</span>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+                <Card className="lg:col-span-2">
+                    <h3 className="text-xl font-bold text-white mb-4">Recent Income</h3>
+                    <div className="space-y-3">
+                        {recentIncomes.map(income => (
+                            <div key={income.id} className="flex items-center justify-between p-2 bg-slate-800/50 rounded-lg">
+                                <div>
+                                    <p className="font-semibold text-white">{income.description}</p>
+                                    <p className="text-sm text-gray-400">
+                                        {INCOME_SOURCES.find(s => s.value === income.source)?.label} · {getMember(income.memberId)?.name} · {timeAgo(income.date)}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <span className="font-bold text-teal-400">+{formatCurrency(income.amount)}</span>
+                                    <button onClick={() => handleDeleteIncome(income)} className="text-gray-500 hover:text-pink-400 p-1" title="Delete income">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                        {recentIncomes.length === 0 && <p className="text-sm text-center text-gray-500 py-4">No income recorded yet. Add it from "Add Expense" or import a statement.</p>}
+                    </div>
+                </Card>
+            </div>
+
             {/* Budgets & Upcoming Payments */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <Card>
                     <h3 className="text-xl font-bold text-white mb-4">Budgets Overview</h3>
                     <div className="space-y-4">
                         {budgets.slice(0, 4).map(budget => {
-                            const category = getCategory(budget.categoryId);
-                            const spent = expensesThisMonth
-                                .filter(e => e.categoryId === budget.categoryId)
-                                .reduce((sum, e) => sum + e.amount, 0);
+                            // Spending in sub-categories rolls up into the budgeted category.
+                            const spent = getRolledUpSpent(expensesThisMonth, budget.categoryId, categories);
                             const percentage = budget.amount > 0 ? spent / budget.amount : 0;
                             const color = percentage > 0.9 ? 'red' : percentage > 0.7 ? 'yellow' : 'indigo';
                             return (
                                 <div key={budget.id}>
                                     <div className="flex justify-between items-center mb-1">
-                                        <span className="font-semibold text-gray-300">{category?.name}</span>
+                                        <span className="font-semibold text-gray-300">{getCategoryLabel(budget.categoryId, categories)}</span>
                                         <span className="text-sm text-gray-400">{formatCurrency(spent)} / {formatCurrency(budget.amount)}</span>
                                     </div>
                                     <ProgressBar value={spent} max={budget.amount} color={color} />
@@ -182,9 +248,12 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
                         const isSplit = exp.splits.length > 1;
 
                         return (
-                            <div 
+                            <button 
                                 key={exp.id} 
-                                className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg animate-fade-in-up"
+                                type="button"
+                                onClick={() => onEditExpense(exp)}
+                                title="Edit expense"
+                                className="w-full text-left flex justify-between items-center p-3 bg-slate-800/50 rounded-lg hover:bg-slate-700/50 transition-colors animate-fade-in-up"
                                 style={{ animationDelay: `${index * 50}ms` }}
                             >
                                 <div className="flex items-center gap-4">
@@ -203,7 +272,7 @@ const Dashboard: React.FC<DashboardProps> = ({ household }) => {
                                     <p className="font-bold text-lg text-pink-400">-{formatCurrency(exp.amount)}</p>
                                     <p className="text-xs text-gray-500">{category?.name}</p>
                                 </div>
-                            </div>
+                            </button>
                         );
                     })}
                 </div>
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { Household, Category } from '../types';
+import Modal from './common/Modal';
+import Button from './common/Button';
+import * as db from '../services/db';
+import { getCategoryWithDescendantIds, sortCategoriesHierarchically } from '../utils/categoryUtils';
+
+interface EditCategoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  category: Category | null; // null for a new category
+  household: Household;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
+}
+
+const EditCategoryModal: React.FC<EditCategoryModalProps> = ({ isOpen, onClose, category, household, onUpdate }) => {
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const mergeTargets = household.categories.filter(c => c.id !== category?.id && !c.isArchived);
+  // A category can't be nested under itself or one of its own sub-categories.
+  const ownTreeIds = category ? getCategoryWithDescendantIds(category.id, household.categories) : [];
+  const parentOptions = sortCategoriesHierarchically(household.categories.filter(c => !c.isArchived && !ownTreeIds.includes(c.id)));
+
+  useEffect(() => {
+    if (category) {
+      setName(category.name);
+      setIcon(category.icon);
+      setParentId(category.parentId || '');
+    } else {
+      // Reset for new category
+      setName('');
+      setIcon('🏷️');
+      setParentId('');
+    }
+    setMergeTargetId('');
+  }, [category, isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !icon.trim()) {
+        alert("Please provide a name and an icon.");
+        return;
+    }
+
+    const isDuplicate = household.categories.some(c =>
+        c.id !== category?.id && (c.parentId || '') === parentId && c.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (isDuplicate) {
+        alert(`A category named "${name.trim()}" already exists. Use merge to combine categories instead.`);
+        return;
+    }
+
+    const savedCategory: Category = {
+      // Keep the id and archive state when editing an existing category
+      id: category ? category.id : `cat-${crypto.randomUUID()}`,
+      name: name.trim(),
+      icon: icon.trim(),
+      isArchived: category?.isArchived ?? false,
+      parentId: parentId || undefined,
+    };
+
+    onUpdate(() => db.upsertCategory(savedCategory));
+    onClose();
+  };
+
+  const handleToggleArchive = () => {
+    if (!category) return;
+    onUpdate(() => db.upsertCategory({ ...category, isArchived: !category.isArchived }));
+    onClose();
+  };
+
+  const handleMerge = () => {
+    if (!category || !mergeTargetId) return;
+    const target = household.categories.find(c => c.id === mergeTargetId);
+    if (!target) return;
+
+    const allExpenses = [...household.expenses, ...household.trips.flatMap(t => t.expenses)];
+    const expenseCount = allExpenses.filter(exp => exp.categoryId === category.id).length;
+
+    if (window.confirm(`Merge "${category.name}" into "${target.name}"? ${expenseCount} expense(s), along with rules, budgets and subscriptions, will move to "${target.name}" and "${category.name}" will be removed. This cannot be undone.`)) {
+        onUpdate(() => db.mergeCategories(category.id, target.id));
+        onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={category ? 'Edit Category' : 'Add New Category'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-4 gap-4">
+          <div className="col-span-1">
+            <label htmlFor="categoryIcon" className="block text-sm font-medium text-gray-300">Icon</label>
+            <input
+              type="text"
+              id="categoryIcon"
+              value={icon}
+              onChange={(e) => setIcon(e.target.value)}
+              className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1 text-center text-xl"
+              required
+            />
+          </div>
+          <div className="col-span-3">
+            <label htmlFor="categoryName" className="block text-sm font-medium text-gray-300">Category Name</label>
+            <input
+              type="text"
+              id="categoryName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Education"
+              className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="parentCategory" className="block text-sm font-medium text-gray-300">Parent Category</label>
+          <select
+            id="parentCategory"
+            value={parentId}
+            onChange={(e) => setParentId(e.target.value)}
+            className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-1"
+          >
+            <option value="">None (top-level category)</option>
+            {parentOptions.map(c => <option key={c.id} value={c.id}>{'\u00A0\u00A0'.repeat(c.depth)}{c.icon} {c.name}</option>)}
+          </select>
+          <p className="text-xs text-gray-500 mt-2">Spending and budgets of a sub-category roll up into its parent.</p>
+        </div>
+
+        {category && (
+          <div className="pt-4 border-t border-slate-700 space-y-2">
+            <label htmlFor="mergeTarget" className="block text-sm font-medium text-gray-300">Merge into another category</label>
+            <div className="flex gap-3">
+              <select
+                id="mergeTarget"
+                value={mergeTargetId}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+                className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm"
+              >
+                <option value="">Select a category...</option>
+                {mergeTargets.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+              </select>
+              <Button type="button" variant="secondary" onClick={handleMerge} disabled={!mergeTargetId}>Merge</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center pt-4">
+            <div>
+                {category && (
+                    <Button type="button" variant={category.isArchived ? 'secondary' : 'danger'} onClick={handleToggleArchive}>
+                        {category.isArchived ? 'Unarchive' : 'Archive'}
+                    </Button>
+                )}
+            </div>
+            <div className="flex gap-3">
+                <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+                <Button type="submit">{category ? 'Save Changes' : 'Add Category'}</Button>
+            </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default EditCategoryModal;
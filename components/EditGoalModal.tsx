@@ -2,13 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { Household, BucketGoal } from '../types';
 import Modal from './common/Modal';
 import Button from './common/Button';
+import * as db from '../services/db';
 
 interface EditGoalModalProps {
   isOpen: boolean;
   onClose: () => void;
   goal: BucketGoal | null; // null for a new goal
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const EditGoalModal: React.FC<EditGoalModalProps> = ({ isOpen, onClose, goal, household, onUpdate }) => {
@@ -33,35 +34,24 @@ const EditGoalModal: React.FC<EditGoalModalProps> = ({ isOpen, onClose, goal, ho
         return;
     }
     
-    let updatedGoals: BucketGoal[];
-
-    if (goal) {
+    const savedGoal: BucketGoal = goal
       // Edit existing goal
-      const updatedGoal: BucketGoal = {
-        ...goal,
-        name: name.trim(),
-        targetAmount: Math.round(parseFloat(targetAmount) * 100),
-      };
-      updatedGoals = household.bucketGoals.map(g => (g.id === goal.id ? updatedGoal : g));
-    } else {
+      ? { ...goal, name: name.trim(), targetAmount: Math.round(parseFloat(targetAmount) * 100) }
       // Add new goal
-      const newGoal: BucketGoal = {
-        id: `goal-${crypto.randomUUID()}`,
-        name: name.trim(),
-        targetAmount: Math.round(parseFloat(targetAmount) * 100),
-        currentAmount: 0,
-      };
-      updatedGoals = [...household.bucketGoals, newGoal];
-    }
+      : {
+          id: `goal-${crypto.randomUUID()}`,
+          name: name.trim(),
+          targetAmount: Math.round(parseFloat(targetAmount) * 100),
+          currentAmount: 0,
+        };
     
-    onUpdate({ bucketGoals: updatedGoals });
+    onUpdate(() => db.upsertGoal(savedGoal));
     onClose();
   };
   
   const handleDelete = () => {
     if (goal && window.confirm(`Are you sure you want to delete the goal "${goal.name}"? This cannot be undone.`)) {
-        const updatedGoals = household.bucketGoals.filter(g => g.id !== goal.id);
-        onUpdate({ bucketGoals: updatedGoals });
+        onUpdate(() => db.deleteGoal(goal.id));
         onClose();
     }
   };
@@ -2,13 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { Household, Member } from '../types';
 import Modal from './common/Modal';
 import Button from './common/Button';
+import * as db from '../services/db';
 
 interface EditMemberModalProps {
   isOpen: boolean;
   onClose: () => void;
   member: Member | null; // null for a new member
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const EditMemberModal: React.FC<EditMemberModalProps> = ({ isOpen, onClose, member, household, onUpdate }) => {
@@ -33,32 +34,23 @@ const EditMemberModal: React.FC<EditMemberModalProps> = ({ isOpen, onClose, memb
         return;
     }
     
-    let updatedMembers: Member[];
-
-    if (member) {
-      // Edit existing member
-      updatedMembers = household.members.map(m => 
-        m.id === member.id ? { ...m, name: name.trim(), avatarUrl: avatarUrl.trim() } : m
-      );
-    } else {
-      // Add new member
-      const newMember: Member = {
-        id: `mem-${crypto.randomUUID()}`,
-        name: name.trim(),
-        avatarUrl: avatarUrl.trim(),
-      };
-      updatedMembers = [...household.members, newMember];
-    }
+    const savedMember: Member = {
+      // Keep the id when editing an existing member
+      id: member ? member.id : `mem-${crypto.randomUUID()}`,
+      name: name.trim(),
+      avatarUrl: avatarUrl.trim(),
+    };
     
-    onUpdate({ members: updatedMembers });
+    onUpdate(() => db.upsertMember(savedMember));
     onClose();
   };
   
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (!member) return;
 
     // Check for associated expenses
-    const hasExpenses = household.expenses.some(exp => 
+    const allExpenses = [...household.expenses, ...household.trips.flatMap(t => t.expenses)];
+    const hasExpenses = allExpenses.some(exp => 
         exp.memberId === member.id || exp.splits.some(split => split.memberId === member.id)
     );
 
@@ -67,10 +59,20 @@ const EditMemberModal: React.FC<EditMemberModalProps> = ({ isOpen, onClose, memb
         return;
     }
 
+    const hasSettlements = household.settlements.some(s => s.fromMemberId === member.id || s.toMemberId === member.id);
+    if (hasSettlements) {
+        alert(`Cannot delete ${member.name}. They have recorded settlement payments. Please delete those payments first.`);
+        return;
+    }
+
+    if (household.incomes.some(i => i.memberId === member.id)) {
+        alert(`Cannot delete ${member.name}. They have recorded income. Please delete that income first.`);
+        return;
+    }
+
     if (window.confirm(`Are you sure you want to delete ${member.name}? This cannot be undone.`)) {
-        const updatedMembers = household.members.filter(m => m.id !== member.id);
-        onUpdate({ members: updatedMembers });
-        onClose();
+        // The checks above use the loaded data; the database has the final say, and a refusal is reported by onUpdate.
+        if (await onUpdate(() => db.deleteMember(member.id))) onClose();
     }
   };
 
@@ -2,13 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { Household, Trip } from '../types';
 import Modal from './common/Modal';
 import Button from './common/Button';
+import * as db from '../services/db';
 
 interface EditTripModalProps {
   isOpen: boolean;
   onClose: () => void;
   trip: Trip | null; // null for a new trip
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const EditTripModal: React.FC<EditTripModalProps> = ({ isOpen, onClose, trip, household, onUpdate }) => {
@@ -36,38 +37,21 @@ const EditTripModal: React.FC<EditTripModalProps> = ({ isOpen, onClose, trip, ho
     e.preventDefault();
     if (!name.trim() || !budget || !startDate || !endDate) return;
     
-    let updatedTrips: Trip[];
-
-    if (trip) {
-      // Edit existing trip
-      const updatedTrip: Trip = {
-        ...trip,
-        name: name.trim(),
-        budget: Math.round(parseFloat(budget) * 100),
-        startDate: new Date(startDate).toISOString(),
-        endDate: new Date(endDate).toISOString(),
-      };
-      updatedTrips = household.trips.map(t => (t.id === trip.id ? updatedTrip : t));
-    } else {
-      // Add new trip
-      const newTrip: Trip = {
-        id: `trip-${crypto.randomUUID()}`,
-        name: name.trim(),
-        budget: Math.round(parseFloat(budget) * 100),
-        startDate: new Date(startDate).toISOString(),
-        endDate: new Date(endDate).toISOString(),
-        expenses: [],
-      };
-      updatedTrips = [...household.trips, newTrip];
-    }
-    onUpdate({ trips: updatedTrips });
+    const savedTrip: Omit<Trip, 'expenses'> = {
+      // Keep the id when editing an existing trip
+      id: trip ? trip.id : `trip-${crypto.randomUUID()}`,
+      name: name.trim(),
+      budget: Math.round(parseFloat(budget) * 100),
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+    };
+    onUpdate(() => db.upsertTrip(savedTrip));
     onClose();
   };
   
   const handleDelete = () => {
     if (trip && window.confirm(`Are you sure you want to delete the trip "${trip.name}"? This cannot be undone.`)) {
-        const updatedTrips = household.trips.filter(t => t.id !== trip.id);
-        onUpdate({ trips: updatedTrips });
+        onUpdate(() => db.deleteTrip(trip.id));
         onClose();
     }
   };
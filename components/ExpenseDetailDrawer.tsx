@@ -0,0 +1,96 @@
+import React from 'react';
+import { Household, Expense } from '../types';
+import Button from './common/Button';
+import { XIcon, PencilIcon } from './icons/Icons';
+import { maskAccountNumber } from '../utils/statementFormats';
+
+interface ExpenseDetailDrawerProps {
+  expense: Expense;
+  household: Household;
+  onClose: () => void;
+  onEdit: (expense: Expense) => void;
+}
+
+const formatCurrency = (amountInCents: number): string => {
+  const amount = amountInCents / 100;
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+};
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 py-2 border-b border-slate-700/50">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-white text-right">{children}</span>
+  </div>
+);
+
+const ExpenseDetailDrawer: React.FC<ExpenseDetailDrawerProps> = ({ expense, household, onClose, onEdit }) => {
+  const category = household.categories.find(c => c.id === expense.categoryId);
+  const getMemberName = (id: string) => household.members.find(m => m.id === id)?.name || 'Unknown';
+  const batch = household.importBatches.find(b => b.id === expense.importBatchId);
+  const metadata = expense.importMetadata;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-40" onClick={onClose}>
+      <div
+        className="fixed top-0 right-0 h-full w-full max-w-md bg-slate-900/70 backdrop-blur-2xl border-l border-slate-700/50 shadow-2xl animate-slide-in-right p-6 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-6 gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{expense.description}</h2>
+            <p className="text-2xl font-bold text-pink-400 mt-1">-{formatCurrency(expense.amount)}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-slate-700 hover:text-white transition-colors">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-6 text-sm">
+          <div>
+            <DetailRow label="Date">{new Date(expense.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}</DetailRow>
+            <DetailRow label="Category">{category ? `${category.icon} ${category.name}` : 'Uncategorized'}</DetailRow>
+            <DetailRow label="Paid by">{getMemberName(expense.memberId)}</DetailRow>
+            {expense.splits.filter(s => s.amount > 0).map(split => (
+              <DetailRow key={split.memberId} label={`${getMemberName(split.memberId)}'s share`}>{formatCurrency(split.amount)}</DetailRow>
+            ))}
+            {expense.notes && <DetailRow label="Notes">{expense.notes}</DetailRow>}
+          </div>
+
+          {(batch || metadata) && (
+            <div>
+              <h3 className="text-lg font-semibold text-white mb-2">From the Bank</h3>
+              {batch && <DetailRow label="Imported from">{batch.fileName} on {new Date(batch.importedAt).toLocaleDateString('en-CA')}</DetailRow>}
+              {metadata?.reference && <DetailRow label="Reference"><span className="font-mono">{metadata.reference}</span></DetailRow>}
+              {metadata?.accountNumber && <DetailRow label="Account">{maskAccountNumber(metadata.accountNumber)}</DetailRow>}
+              {metadata?.balance !== undefined && <DetailRow label="Balance after">{formatCurrency(metadata.balance)}</DetailRow>}
+              {metadata?.rawLine && (
+                <div className="mt-3">
+                  <p className="text-gray-400 mb-1">Original statement line</p>
+                  <pre className="p-3 bg-slate-800/50 rounded-lg text-xs text-gray-300 whitespace-pre-wrap break-all font-mono">{metadata.rawLine}</pre>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="pt-4">
+          <Button variant="secondary" onClick={() => onEdit(expense)} className="w-full">
+            <PencilIcon className="w-4 h-4" />
+            <span>Edit Expense</span>
+          </Button>
+        </div>
+      </div>
+      <style>{`
+        @keyframes slide-in-right {
+          from { transform: translateX(100%); }
+          to { transform: translateX(0); }
+        }
+        .animate-slide-in-right {
+          animation: slide-in-right 0.3s ease-out forwards;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ExpenseDetailDrawer;
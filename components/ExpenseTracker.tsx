@@ -1,8 +1,12 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Household, Expense } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
-import { TrashIcon, ArrowDownTrayIcon } from './icons/Icons';
+import { TrashIcon, ArrowDownTrayIcon, PencilIcon, MagnifyingGlassIcon } from './icons/Icons';
+import * as db from '../services/db';
+import { getCategoryWithDescendantIds, sortCategoriesHierarchically } from '../utils/categoryUtils';
+import { parseSearchQuery, matchesSearchFilters } from '../utils/searchUtils';
+import ExpenseDetailDrawer from './ExpenseDetailDrawer';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -11,31 +15,91 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface ExpenseTrackerProps {
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
+  onEditExpense: (expense: Expense) => void;
 }
 
-const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate }) => {
-    const { expenses, members, categories } = household;
+const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate, onEditExpense }) => {
+    const { expenses, members, categories, trips } = household;
     
     const [filter, setFilter] = useState<{ memberId: string, categoryId: string }>({ memberId: 'all', categoryId: 'all' });
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [searchText, setSearchText] = useState('');
+    const [textMatchIds, setTextMatchIds] = useState<Set<string> | null>(null);
+    const [detailExpense, setDetailExpense] = useState<Expense | null>(null);
+
+    const searchQuery = useMemo(() => parseSearchQuery(searchText), [searchText]);
+
+    // Free text goes through the DB's full-text index; null means there is no text to match.
+    useEffect(() => {
+        if (searchQuery.terms.length === 0) {
+            setTextMatchIds(null);
+            return;
+        }
+        let isCancelled = false;
+        db.searchExpenseIds(searchQuery.terms).then(ids => {
+            if (!isCancelled) setTextMatchIds(new Set(ids));
+        });
+        return () => { isCancelled = true; };
+    }, [searchQuery, expenses, trips]);
 
     const getCategory = (id: string) => categories.find(c => c.id === id);
     const getMember = (id: string) => members.find(m => m.id === id);
 
     const handleDeleteExpense = async (expenseId: string) => {
         if(window.confirm('Are you sure you want to delete this expense?')) {
-            await onUpdate({
-                expenses: household.expenses.filter(exp => exp.id !== expenseId)
-            });
+            await onUpdate(() => db.deleteExpense(expenseId));
         }
     };
 
     const filteredExpenses = useMemo(() => {
-        return [...expenses]
+        // Filtering on a parent category also matches its sub-categories.
+        const categoryIds = filter.categoryId === 'all' ? [] : getCategoryWithDescendantIds(filter.categoryId, categories);
+        // Trip expenses are only listed when searching with trip:
+        const tripNames = new Map<string, string>();
+        const searchable = searchQuery.trip
+            ? trips.flatMap(trip => trip.expenses.map(exp => {
+                tripNames.set(exp.id, trip.name);
+                return exp;
+            }))
+            : expenses;
+        return [...searchable]
+            .filter(exp => !textMatchIds || textMatchIds.has(exp.id))
+            .filter(exp => matchesSearchFilters(exp, searchQuery, { categories, members, tripName: tripNames.get(exp.id) }))
             .filter(exp => filter.memberId === 'all' || exp.splits.some(s => s.memberId === filter.memberId && s.amount > 0))
-            .filter(exp => filter.categoryId === 'all' || exp.categoryId === filter.categoryId)
+            .filter(exp => filter.categoryId === 'all' || categoryIds.includes(exp.categoryId))
             .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }, [expenses, filter]);
+    }, [expenses, trips, filter, categories, members, searchQuery, textMatchIds]);
+
+    // Only expenses that are still visible can be bulk deleted.
+    const selectedExpenses = filteredExpenses.filter(exp => selectedIds.has(exp.id));
+    const selectedTotal = selectedExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const allVisibleSelected = filteredExpenses.length > 0 && selectedExpenses.length === filteredExpenses.length;
+
+    const handleToggleSelected = (expenseId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(expenseId)) {
+                next.delete(expenseId);
+            } else {
+                next.add(expenseId);
+            }
+            return next;
+        });
+    };
+
+    const handleToggleSelectAll = () => {
+        setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredExpenses.map(exp => exp.id)));
+    };
+
+    const handleDeleteSelected = async () => {
+        if (selectedExpenses.length === 0) return;
+        const count = selectedExpenses.length;
+        if (window.confirm(`Delete ${count} expense${count === 1 ? '' : 's'} totalling ${formatCurrency(selectedTotal)}? This cannot be undone.`)) {
+            await onUpdate(() => db.deleteExpenses(selectedExpenses.map(exp => exp.id)));
+            setSelectedIds(new Set());
+        }
+    };
     
     // Total amount is the sum of the full expense amounts, not the splits
     const totalFilteredAmount = filteredExpenses.reduce((sum, exp) => sum + exp.amount, 0);
@@ -113,6 +177,25 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
             </div>
         </div>
 
+        {/* Search */}
+        <div className="mb-4">
+            <label htmlFor="expenseSearch" className="block text-sm font-medium text-gray-300">Search</label>
+            <div className="relative mt-1">
+                <MagnifyingGlassIcon className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+                <input
+                    type="search"
+                    id="expenseSearch"
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    placeholder='e.g. swiggy amount>500 cat:Dining paid:Partner before:2024-09-01 trip:Manali'
+                    className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm pl-10"
+                />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+                Free text searches descriptions and notes. Operators: amount&gt;500, amount&lt;=1000, before:/after:YYYY-MM-DD, cat:, paid:, trip:
+            </p>
+        </div>
+
         {/* Filters */}
         <div className="flex flex-col sm:flex-row gap-4 mb-6">
             <div className="flex-1">
@@ -136,11 +219,25 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
                     onChange={(e) => setFilter(prev => ({ ...prev, categoryId: e.target.value }))}
                 >
                     <option value="all">All Categories</option>
-                    {categories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+                    {sortCategoriesHierarchically(categories).map(cat => <option key={cat.id} value={cat.id}>{'\u00A0\u00A0'.repeat(cat.depth)}{cat.name}</option>)}
                 </select>
             </div>
         </div>
 
+        {/* Bulk Actions */}
+        {filteredExpenses.length > 0 && (
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4 p-3 bg-slate-800/50 rounded-lg">
+                <label className="flex items-center gap-3 text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={allVisibleSelected} onChange={handleToggleSelectAll} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+                    <span>{selectedExpenses.length > 0 ? `${selectedExpenses.length} selected · ${formatCurrency(selectedTotal)}` : 'Select all'}</span>
+                </label>
+                <Button variant="danger" size="sm" onClick={handleDeleteSelected} disabled={selectedExpenses.length === 0}>
+                    <TrashIcon className="w-4 h-4" />
+                    <span>Delete Selected</span>
+                </Button>
+            </div>
+        )}
+
         {/* Expense List */}
         <div className="space-y-3">
           {filteredExpenses.map((exp: Expense, index: number) => {
@@ -155,9 +252,18 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
                 style={{ animationDelay: `${index * 50}ms` }}
               >
                 <div className="flex items-center gap-4 w-full">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(exp.id)}
+                    onChange={() => handleToggleSelected(exp.id)}
+                    className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500"
+                    aria-label={`Select ${exp.description}`}
+                  />
                   <span className="text-2xl mt-1 md:mt-0">{category?.icon || '❓'}</span>
                   <div className="flex-1">
-                    <p className="font-semibold text-white">{exp.description}</p>
+                    <button type="button" onClick={() => setDetailExpense(exp)} className="font-semibold text-white text-left hover:underline" title="Show details">
+                      {exp.description}
+                    </button>
                     <p className="text-sm text-gray-400">
                       {new Date(exp.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
                       {' · Paid by '}
@@ -168,6 +274,9 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
                 </div>
                 <div className="flex items-center gap-4 w-full md:w-auto mt-2 md:mt-0 pl-10 md:pl-0 justify-end">
                   <p className="font-bold text-lg text-pink-400 flex-1 md:flex-none text-right">-{formatCurrency(exp.amount)}</p>
+                  <Button variant="secondary" size="sm" onClick={() => onEditExpense(exp)} className="p-2" title="Edit expense">
+                    <PencilIcon className="w-4 h-4" />
+                  </Button>
                   <Button variant="danger" size="sm" onClick={() => handleDeleteExpense(exp.id)} className="p-2">
                     <TrashIcon className="w-4 h-4" />
                   </Button>
@@ -178,10 +287,21 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ household, onUpdate })
         </div>
         {filteredExpenses.length === 0 && (
             <div className="text-center py-10 text-gray-500">
-                <p>No expenses match your filters.</p>
+                <p>No expenses match your search and filters.</p>
             </div>
         )}
       </Card>
+      {detailExpense && (
+        <ExpenseDetailDrawer
+          expense={detailExpense}
+          household={household}
+          onClose={() => setDetailExpense(null)}
+          onEdit={(expense) => {
+            setDetailExpense(null);
+            onEditExpense(expense);
+          }}
+        />
+      )}
     </div>
   );
 };
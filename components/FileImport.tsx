@@ -1,16 +1,65 @@
-import React, { useState, useCallback } from 'react';
-import { Household, Expense, ParsedTransaction } from '../types';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Household, ParsedTransaction, BankProfile, CsvColumnMapping, ImportSource, StatementImport } from '../types';
 import { parseBankStatement, categorizeTransactions } from '../services/geminiService';
+import { getAiErrorMessage } from '../services/ai';
 import Card from './common/Card';
-import { ArrowUpTrayIcon } from './icons/Icons';
+import { ArrowUpTrayIcon, TrashIcon } from './icons/Icons';
 import Button from './common/Button';
+import ProgressBar from './common/ProgressBar';
 import ImportReview from './ImportReview';
+import CsvColumnMapper from './CsvColumnMapper';
+import ImportHistory from './ImportHistory';
+import SharedExpenseImport from './SharedExpenseImport';
+import { parseCsvRows, guessCsvMapping, detectBankProfile, applyCsvMapping, StatementTransaction } from '../utils/csvImport';
+import { isOfxContent, isQifContent, parseOfx, parseQif } from '../utils/statementFormats';
+import { parseBankMessage, splitBankMessages } from '../utils/smsParser';
+import { suggestCategory } from '../utils/expenseUtils';
+import { SharedLedger, isSplitwiseExport, isSharedExpenseTemplate, parseSplitwiseExport, parseSharedExpenseTemplate, buildSharedExpenseTemplate } from '../utils/sharedLedgerImport';
 
 interface FileImportProps {
   household: Household;
-  onAddExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
+  onImport: (statementImport: StatementImport) => Promise<boolean>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
+interface CsvMappingState {
+  rows: string[][];
+  initialMapping: CsvColumnMapping;
+  detectedProfile?: BankProfile;
+}
+
+// One dropped file, or one paste of bank messages, on its way through the import queue.
+// `mapped` holds a CSV's rows once its columns have been mapped by hand, with the bank profile used for them.
+interface QueuedFile {
+  id: string;
+  name: string;
+  file?: File;
+  pasted?: { text: string; transactions: StatementTransaction[] };
+  status: 'queued' | 'processing' | 'needsMapping' | 'done' | 'failed';
+  step?: string;
+  error?: string;
+  csv?: CsvMappingState;
+  mapped?: { transactions: StatementTransaction[]; bankProfileId?: string };
+  source?: ImportSource;
+}
+
+// Files are parsed two at a time, so a folder of scans doesn't send a burst of AI requests.
+const MAX_CONCURRENT_FILES = 2;
+
+const SUPPORTED_FILE_TYPES = /\.(csv|tsv|txt|ofx|qfx|qif|pdf|png|jpe?g|webp)$/i;
+
+// Text formats are parsed locally; only images and PDFs need the AI parser.
+const isDelimitedTextFile = (file: File) =>
+    file.type === 'text/csv' || file.type === 'text/plain' || file.type === 'text/tab-separated-values' || /\.(csv|tsv|txt)$/i.test(file.name);
+const isOfxFile = (file: File, content: string) => /\.(ofx|qfx)$/i.test(file.name) || isOfxContent(content);
+const isQifFile = (file: File, content: string) => /\.qif$/i.test(file.name) || isQifContent(content);
+
+// Identifies a statement by content, so importing the same download again can be spotted.
+const hashContent = async (data: BufferSource): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
 const fileReader = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -24,49 +73,219 @@ const fileReader = (file: File): Promise<string> => {
     });
 };
 
-const FileImport: React.FC<FileImportProps> = ({ household, onAddExpense }) => {
+// Walks a dropped folder for the files inside it, including those in subfolders.
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    }
+    if (!entry.isDirectory) return [];
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries hands back the folder a chunk at a time, and an empty chunk at the end.
+    for (;;) {
+        const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (chunk.length === 0) break;
+        entries.push(...chunk);
+    }
+    return (await Promise.all(entries.map(readEntryFiles))).flat();
+};
+
+const STATUS_COLORS: Record<QueuedFile['status'], string> = {
+  queued: 'text-gray-400',
+  processing: 'text-indigo-300',
+  needsMapping: 'text-yellow-400',
+  done: 'text-teal-400',
+  failed: 'text-red-400',
+};
+
+const getStatusText = (item: QueuedFile): string => {
+  switch (item.status) {
+    case 'queued': return 'Waiting...';
+    case 'processing': return item.step || 'Processing...';
+    case 'needsMapping': return 'Choose which columns hold the date, description and amount.';
+    case 'done': return `${item.source?.transactions.length ?? 0} transactions ready to review`;
+    case 'failed': return item.error || 'Failed to process this file.';
+  }
+};
+
+const FileImport: React.FC<FileImportProps> = ({ household, onImport, onUpdate }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingStep, setLoadingStep] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const [categorizedTransactions, setCategorizedTransactions] = useState<Omit<ParsedTransaction, 'memberId'>[] | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
+  const [mappingItemId, setMappingItemId] = useState<string | null>(null);
+  const [reviewSources, setReviewSources] = useState<ImportSource[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [pastedMessages, setPastedMessages] = useState('');
+  const [isBulkPaste, setIsBulkPaste] = useState(false);
+  const [sharedImport, setSharedImport] = useState<{ ledger: SharedLedger; fileName: string; fileHash: string } | null>(null);
 
-  const processFile = useCallback(async (file: File) => {
-    if (!file) return;
+  const updateItem = useCallback((id: string, changes: Partial<QueuedFile>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
 
-    setIsLoading(true);
-    setError(null);
-    setCategorizedTransactions(null);
-    setFileName(file.name);
+  // Rows are categorized by the household's rules first, matching on the raw narration too; only the rest go to the AI.
+  const categorizeParsed = useCallback(async (parsed: StatementTransaction[], onStep: (step: string) => void): Promise<Omit<ParsedTransaction, 'memberId'>[]> => {
+    const ruleCategories = parsed.map(t => suggestCategory(t.description, household.rules, household.categories, t.metadata?.rawLine));
+    const unmatched = parsed.filter((_, index) => !ruleCategories[index]);
+    if (unmatched.length > 0) onStep("Categorizing transactions...");
+    const aiCategorized = await categorizeTransactions(unmatched, household);
+    let nextAiIndex = 0;
+    return parsed.map((t, index) => ({
+      ...t,
+      categoryId: ruleCategories[index] || aiCategorized[nextAiIndex++].categoryId,
+    }));
+  }, [household]);
+
+  const processItem = useCallback(async (item: QueuedFile) => {
+    const onStep = (step: string) => updateItem(item.id, { step });
+    const fail = (error: string) => updateItem(item.id, { status: 'failed', error, step: undefined });
+    const finish = async (details: Omit<ImportSource, 'fileName' | 'transactions'>, parsed: StatementTransaction[]) => {
+      const transactions = await categorizeParsed(parsed, onStep);
+      updateItem(item.id, { status: 'done', step: undefined, source: { fileName: item.name, transactions, ...details } });
+    };
 
+    updateItem(item.id, { status: 'processing', step: 'Parsing file...', error: undefined });
     try {
-      setLoadingStep("Parsing file...");
+      if (item.pasted) {
+        const { text, transactions } = item.pasted;
+        const accounts = new Set(transactions.map(m => m.metadata?.accountNumber).filter(Boolean));
+        await finish({
+          fileHash: await hashContent(new TextEncoder().encode(text)),
+          parser: 'sms',
+          statementDetails: { accountNumber: accounts.size === 1 ? [...accounts][0] : undefined },
+        }, transactions);
+        return;
+      }
+
+      const { file } = item;
+      if (!file) return;
       const fileContent = await fileReader(file);
-      const parsed = await parseBankStatement(fileContent, file.type);
-      
-      if(parsed.length === 0) {
-        setError("AI could not find any transactions in this file. Please try a different file or format.");
-        setIsLoading(false);
+      const fileHash = await hashContent(await file.arrayBuffer());
+
+      if (item.mapped) {
+        await finish({ fileHash, parser: 'csv', statementDetails: {}, bankProfileId: item.mapped.bankProfileId }, item.mapped.transactions);
+        return;
+      }
+
+      const isOfx = isOfxFile(file, fileContent);
+      if (isOfx || isQifFile(file, fileContent)) {
+        const { transactions, ...details } = isOfx ? parseOfx(fileContent) : parseQif(fileContent);
+        if (transactions.length === 0) {
+          fail(`No transactions were found in this ${isOfx ? 'OFX/QFX' : 'QIF'} file.`);
+          return;
+        }
+        await finish({ fileHash, parser: isOfx ? 'ofx' : 'qif', statementDetails: details }, transactions);
+        return;
+      }
+
+      if (isDelimitedTextFile(file)) {
+        const rows = parseCsvRows(fileContent);
+        if (rows.length === 0) {
+          fail("This file is empty.");
+          return;
+        }
+        if (isSplitwiseExport(rows) || isSharedExpenseTemplate(rows)) {
+          fail("This is a Splitwise or spreadsheet template export. Import it under \"Import from Splitwise or a Spreadsheet\" below so who shared each expense is kept.");
+          return;
+        }
+        // A saved bank profile that reads every row is used as is; anything else waits for the column mapper.
+        const detectedProfile = detectBankProfile(rows, household.bankProfiles);
+        const result = detectedProfile && applyCsvMapping(rows, detectedProfile.mapping);
+        if (result && result.transactions.length > 0 && result.skippedRows.length === 0) {
+          await finish({ fileHash, parser: 'csv', statementDetails: {}, bankProfileId: detectedProfile.id }, result.transactions);
+          return;
+        }
+        updateItem(item.id, { status: 'needsMapping', step: undefined, csv: { rows, initialMapping: guessCsvMapping(rows), detectedProfile } });
         return;
       }
-      
-      setLoadingStep("Categorizing transactions...");
-      const categorized = await categorizeTransactions(parsed, household);
-      setCategorizedTransactions(categorized);
 
+      onStep("Reading statement with AI...");
+      const { transactions, ...details } = await parseBankStatement(fileContent, file.type);
+      if (transactions.length === 0) {
+        fail("AI could not find any transactions in this file.");
+        return;
+      }
+      await finish({ fileHash, parser: 'ai', statementDetails: details }, transactions);
     } catch (err) {
       console.error("File processing failed:", err);
-      setError("Failed to analyze the file. The format might be unsupported or the file could be corrupted. Please try again.");
-    } finally {
-      setIsLoading(false);
-      setLoadingStep('');
+      fail(getAiErrorMessage(err, "Failed to analyze the file. The format might be unsupported or the file could be corrupted."));
     }
-  }, [household]);
+  }, [household, categorizeParsed, updateItem]);
+
+  // Starts waiting files whenever a processing slot is free.
+  useEffect(() => {
+    const processingCount = queue.filter(item => item.status === 'processing').length;
+    queue
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, MAX_CONCURRENT_FILES - processingCount))
+      .forEach(item => processItem(item));
+  }, [queue, processItem]);
+
+  const enqueueFiles = (files: File[]) => {
+    const supported = files.filter(f => SUPPORTED_FILE_TYPES.test(f.name));
+    setSkippedFiles(files.filter(f => !SUPPORTED_FILE_TYPES.test(f.name)).map(f => f.name));
+    setError(null);
+    setQueue(prev => [...prev, ...supported.map(file => ({ id: crypto.randomUUID(), name: file.name, file, status: 'queued' as const }))]);
+  };
+
+  const handlePastedMessages = () => {
+    const today = new Date().toISOString().split('T')[0];
+    const messages = isBulkPaste ? splitBankMessages(pastedMessages) : [pastedMessages];
+    const parsed = messages.map(m => parseBankMessage(m, today)).filter(m => m !== null);
+    if (parsed.length === 0) {
+      setError("No debits or credits were found in the pasted text. Please paste the bank's SMS or email alert as it was sent.");
+      return;
+    }
+    setError(null);
+    setQueue(prev => [...prev, { id: crypto.randomUUID(), name: 'Pasted messages', pasted: { text: pastedMessages, transactions: parsed }, status: 'queued' }]);
+    setPastedMessages('');
+  };
+
+  // Splitwise exports and the spreadsheet template record who shared each expense, so they skip the statement review.
+  const handleSharedFile = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const rows = parseCsvRows(await fileReader(file));
+      const ledger = isSplitwiseExport(rows) ? parseSplitwiseExport(rows) : isSharedExpenseTemplate(rows) ? parseSharedExpenseTemplate(rows) : null;
+      if (!ledger) {
+        setError("This doesn't look like a Splitwise export or the spreadsheet template. Download the template to see the expected columns.");
+        return;
+      }
+      if (ledger.rows.length === 0) {
+        setError(`No expenses could be read from "${file.name}".`);
+        return;
+      }
+      setError(null);
+      setSharedImport({ ledger, fileName: file.name, fileHash: await hashContent(await file.arrayBuffer()) });
+    } catch (err) {
+      console.error("Shared expense file failed:", err);
+      setError("Failed to read the file. Please try again.");
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([buildSharedExpenseTemplate(household.members.map(m => m.name))], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", "financely-shared-expenses-template.csv");
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCsvConfirm = (parsed: StatementTransaction[], bankProfileId?: string) => {
+    if (mappingItemId) updateItem(mappingItemId, { status: 'queued', mapped: { transactions: parsed, bankProfileId }, csv: undefined });
+    setMappingItemId(null);
+  };
 
   const handleFileSelect = (files: FileList | null) => {
     if (files && files.length > 0) {
-      processFile(files[0]);
+      enqueueFiles(Array.from(files));
     }
   };
 
@@ -75,76 +294,203 @@ const FileImport: React.FC<FileImportProps> = ({ household, onAddExpense }) => {
     e.stopPropagation();
     setIsDragging(isEntering);
   };
-  
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFile(e.dataTransfer.files[0]);
-      e.dataTransfer.clearData();
+    // Entries have to be taken before the first await, while the drop event's data is still readable.
+    const entries = Array.from<DataTransferItem>(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    const droppedFiles = Array.from<File>(e.dataTransfer.files);
+    try {
+      enqueueFiles(entries.length > 0 ? (await Promise.all(entries.map(readEntryFiles))).flat() : droppedFiles);
+    } catch (err) {
+      console.error("Reading dropped folder failed:", err);
+      setError("Some of the dropped files couldn't be read. Please try choosing them with Browse Files instead.");
     }
   };
 
   const handleReset = () => {
-    setCategorizedTransactions(null);
+    setReviewSources(null);
+    setMappingItemId(null);
+    setQueue([]);
+    setSkippedFiles([]);
     setError(null);
-    setFileName(null);
   }
 
-  if (categorizedTransactions) {
-    return <ImportReview 
-              transactions={categorizedTransactions}
-              fileName={fileName!}
-              onAddExpense={onAddExpense}
+  if (showHistory) {
+    return <ImportHistory household={household} onUpdate={onUpdate} onBack={() => setShowHistory(false)} />
+  }
+
+  if (sharedImport) {
+    return <SharedExpenseImport
+              key={sharedImport.fileHash}
+              ledger={sharedImport.ledger}
+              fileName={sharedImport.fileName}
+              fileHash={sharedImport.fileHash}
+              household={household}
+              onUpdate={onUpdate}
+              onBack={() => setSharedImport(null)}
+           />
+  }
+
+  const mappingItem = queue.find(item => item.id === mappingItemId);
+  if (mappingItem?.csv) {
+    return <CsvColumnMapper
+              key={mappingItem.id}
+              rows={mappingItem.csv.rows}
+              fileName={mappingItem.name}
+              initialMapping={mappingItem.csv.initialMapping}
+              detectedProfile={mappingItem.csv.detectedProfile}
+              household={household}
+              onUpdate={onUpdate}
+              onConfirm={handleCsvConfirm}
+              onCancel={() => setMappingItemId(null)}
+           />
+  }
+
+  if (reviewSources) {
+    return <ImportReview
+              sources={reviewSources}
+              onImport={onImport}
               household={household}
               onReset={handleReset}
            />
   }
 
+  const readySources = queue.flatMap(item => item.source ? [item.source] : []);
+  const readyCount = readySources.reduce((sum, source) => sum + source.transactions.length, 0);
+  const pendingCount = queue.filter(item => item.status === 'queued' || item.status === 'processing').length;
+  const leftOutCount = queue.filter(item => item.status === 'needsMapping' || item.status === 'failed').length;
+
   return (
     <div className="animate-fade-in-up">
       <Card>
         <div className="flex justify-between items-center mb-4">
-            <h2 className="text-2xl font-bold text-white">Import Statement</h2>
+            <h2 className="text-2xl font-bold text-white">Import Statements</h2>
+            {household.importBatches.length > 0 && (
+              <Button variant="secondary" size="sm" onClick={() => setShowHistory(true)}>Import History</Button>
+            )}
         </div>
 
-        <div 
+        <div
           className={`border-2 border-dashed rounded-xl p-8 text-center transition-colors duration-300 ${isDragging ? 'border-indigo-500 bg-slate-700/50' : 'border-slate-600'}`}
           onDragEnter={(e) => handleDragEvents(e, true)}
           onDragOver={(e) => handleDragEvents(e, true)}
           onDragLeave={(e) => handleDragEvents(e, false)}
           onDrop={handleDrop}
         >
-          {isLoading ? (
-            <div className="space-y-4">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-400 mx-auto"></div>
-              <p className="text-lg font-semibold text-white">Analyzing "{fileName}"...</p>
-              <p className="text-gray-400">{loadingStep}</p>
-            </div>
-          ) : (
-            <>
-              <ArrowUpTrayIcon className="w-12 h-12 mx-auto text-slate-500 mb-4" />
-              <h3 className="text-xl font-semibold text-white">Drag & drop your file here</h3>
-              <p className="text-gray-400 my-2">or</p>
-              <input 
-                type="file" 
-                id="file-upload" 
-                className="hidden" 
-                accept=".csv, .pdf, image/png, image/jpeg, image/webp"
-                onChange={(e) => handleFileSelect(e.target.files)}
-              />
-              <Button type="button" variant="secondary" onClick={() => document.getElementById('file-upload')?.click()}>
-                Browse File
-              </Button>
-              <p className="text-xs text-gray-500 mt-4">Supported formats: PDF, CSV, PNG, JPG, WEBP</p>
-            </>
-          )}
+          <ArrowUpTrayIcon className="w-12 h-12 mx-auto text-slate-500 mb-4" />
+          <h3 className="text-xl font-semibold text-white">Drag & drop your files or a folder here</h3>
+          <p className="text-gray-400 my-2">or</p>
+          <input
+            type="file"
+            id="file-upload"
+            className="hidden"
+            multiple
+            accept=".csv, .tsv, .txt, .ofx, .qfx, .qif, .pdf, image/png, image/jpeg, image/webp"
+            onChange={(e) => {
+              handleFileSelect(e.target.files);
+              e.target.value = ''; // lets the same file be chosen again after it's removed
+            }}
+          />
+          <Button type="button" variant="secondary" onClick={() => document.getElementById('file-upload')?.click()}>
+            Browse Files
+          </Button>
+          <p className="text-xs text-gray-500 mt-4">Supported formats: CSV, OFX/QFX, QIF (read on your device), PDF, PNG, JPG, WEBP</p>
         </div>
         {error && <p className="text-red-400 text-center mt-4">{error}</p>}
+        {skippedFiles.length > 0 && (
+          <p className="text-yellow-400 text-sm text-center mt-4">Skipped {skippedFiles.length} unsupported files: {skippedFiles.join(', ')}</p>
+        )}
+
+        {queue.length > 0 && (
+          <div className="mt-6">
+            <div className="flex justify-between items-center text-sm text-gray-400 mb-2">
+              <span>{queue.length - pendingCount} of {queue.length} files processed</span>
+              {pendingCount > 0 && <span>{pendingCount} remaining</span>}
+            </div>
+            <ProgressBar value={queue.length - pendingCount} max={queue.length} />
+
+            <ul className="space-y-2 mt-4">
+              {queue.map(item => (
+                <li key={item.id} className="flex flex-col sm:flex-row justify-between sm:items-center gap-3 p-3 bg-slate-800/50 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-white truncate">{item.name}</p>
+                    <p className={`text-sm ${STATUS_COLORS[item.status]}`}>{getStatusText(item)}</p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {item.status === 'processing' && <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-400"></div>}
+                    {item.status === 'needsMapping' && <Button size="sm" onClick={() => setMappingItemId(item.id)}>Map Columns</Button>}
+                    {item.status === 'failed' && <Button size="sm" variant="secondary" onClick={() => updateItem(item.id, { status: 'queued' })}>Retry</Button>}
+                    {item.status !== 'processing' && (
+                      <button onClick={() => setQueue(prev => prev.filter(q => q.id !== item.id))} className="p-1 text-gray-400 hover:text-red-400" title="Remove from queue">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3 mt-4">
+              <p className="text-sm text-gray-400">
+                {leftOutCount > 0 && `${leftOutCount} files still need attention and will be left out of the review.`}
+              </p>
+              <div className="flex gap-3">
+                <Button variant="secondary" onClick={handleReset} disabled={pendingCount > 0}>Clear</Button>
+                <Button onClick={() => setReviewSources(readySources)} disabled={pendingCount > 0 || readyCount === 0}>
+                  Review {readyCount} Transactions
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      <Card className="mt-6">
+        <h3 className="text-xl font-bold text-white">Paste Bank SMS or Email Alerts</h3>
+        <p className="text-gray-400 mt-1 text-sm">UPI, debit card and account alerts from the major Indian banks are read on your device.</p>
+        <textarea
+          value={pastedMessages}
+          onChange={e => setPastedMessages(e.target.value)}
+          rows={isBulkPaste ? 8 : 3}
+          placeholder="e.g., Rs.450.00 debited from A/c XX1234 to VPA zomato@hdfc on 12-09-24"
+          className="w-full bg-slate-700 border-slate-600 rounded-md shadow-sm mt-3 text-sm"
+        />
+        <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3 mt-3">
+          <label className="flex items-center gap-2 text-gray-300 cursor-pointer text-sm">
+            <input type="checkbox" checked={isBulkPaste} onChange={e => setIsBulkPaste(e.target.checked)} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+            <span>Several messages (one per line, or separated by blank lines)</span>
+          </label>
+          <Button onClick={handlePastedMessages} disabled={!pastedMessages.trim()}>Read Messages</Button>
+        </div>
+      </Card>
+
+      <Card className="mt-6">
+        <h3 className="text-xl font-bold text-white">Import from Splitwise or a Spreadsheet</h3>
+        <p className="text-gray-400 mt-1 text-sm">
+          Bring over shared expenses you tracked elsewhere, with each person's share. Use Splitwise's "Export as spreadsheet" file, or fill in our template from Google Sheets or Excel and save it as CSV.
+        </p>
+        <input
+          type="file"
+          id="shared-upload"
+          className="hidden"
+          accept=".csv"
+          onChange={(e) => {
+            handleSharedFile(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <div className="flex flex-col sm:flex-row gap-3 mt-3 sm:justify-end">
+          <Button variant="secondary" onClick={handleDownloadTemplate}>Download Template</Button>
+          <Button onClick={() => document.getElementById('shared-upload')?.click()}>Choose CSV</Button>
+        </div>
       </Card>
     </div>
   );
 };
 
-export default FileImport;
\ No newline at end of file
+export default FileImport;
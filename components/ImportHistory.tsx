@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { Household, ImportBatch, ImportParser } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import { ArrowUpTrayIcon } from './icons/Icons';
+import * as db from '../services/db';
+import { getVerifiedMonths } from '../utils/reconcileUtils';
+
+interface ImportHistoryProps {
+  household: Household;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
+  onBack: () => void;
+}
+
+const PARSER_LABELS: Record<ImportParser, string> = {
+  csv: 'CSV',
+  ofx: 'OFX/QFX',
+  qif: 'QIF',
+  sms: 'Bank SMS / alerts',
+  ai: 'AI (PDF/image)',
+  splitwise: 'Splitwise',
+  template: 'Spreadsheet template',
+};
+
+const formatCurrency = (amountInCents: number): string => {
+  const amount = amountInCents / 100;
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+};
+
+const ImportHistory: React.FC<ImportHistoryProps> = ({ household, onUpdate, onBack }) => {
+  const allExpenses = [...household.expenses, ...household.trips.flatMap(t => t.expenses)];
+  const verifiedMonths = useMemo(() => getVerifiedMonths(household.reconciledPeriods), [household.reconciledPeriods]);
+
+  // Rows deleted by hand since the import are no longer counted.
+  const getBatchTotals = (batchId: string) => {
+    const expenses = allExpenses.filter(e => e.importBatchId === batchId);
+    const incomes = household.incomes.filter(i => i.importBatchId === batchId);
+    const settlements = household.settlements.filter(s => s.importBatchId === batchId);
+    return {
+      remaining: expenses.length + incomes.length + settlements.length,
+      spent: expenses.reduce((sum, e) => sum + e.amount, 0),
+      received: incomes.reduce((sum, i) => sum + i.amount, 0),
+    };
+  };
+
+  const handleUndo = (batch: ImportBatch) => {
+    const { remaining } = getBatchTotals(batch.id);
+    if (window.confirm(`Undo the import of "${batch.fileName}"? This deletes the ${remaining} expenses, income and payments it created.`)) {
+      onUpdate(() => db.undoImportBatch(batch.id));
+    }
+  };
+
+  return (
+    <div className="animate-fade-in-up space-y-6">
+      <Card>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Import History</h2>
+            <p className="text-gray-400 mt-1">Undoing an import deletes everything it created in one step.</p>
+          </div>
+          <Button variant="secondary" onClick={onBack}>Back to Import</Button>
+        </div>
+
+        {household.importBatches.length > 0 ? (
+          <div className="space-y-2">
+            {household.importBatches.map(batch => {
+              const { remaining, spent, received } = getBatchTotals(batch.id);
+              return (
+                <div key={batch.id} className="flex flex-col sm:flex-row justify-between sm:items-center gap-3 p-3 bg-slate-800/50 rounded-lg">
+                  <div>
+                    <p className="font-semibold text-white">{batch.fileName}</p>
+                    <p className="text-sm text-gray-400">
+                      {new Date(batch.importedAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                      {' · '}{PARSER_LABELS[batch.parser] || batch.parser}
+                      {' · '}{remaining === batch.rowCount ? `${batch.rowCount} rows` : `${remaining} of ${batch.rowCount} rows remaining`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-right text-sm">
+                      {spent > 0 && <p className="font-mono text-pink-400">-{formatCurrency(spent)}</p>}
+                      {received > 0 && <p className="font-mono text-teal-400">+{formatCurrency(received)}</p>}
+                    </div>
+                    <Button variant="danger" size="sm" onClick={() => handleUndo(batch)}>Undo Import</Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-10 text-gray-500">
+            <ArrowUpTrayIcon className="w-10 h-10 mx-auto mb-2 text-slate-600" />
+            <p>No statements have been imported yet.</p>
+          </div>
+        )}
+      </Card>
+
+      {verifiedMonths.size > 0 && (
+        <Card>
+          <h3 className="text-xl font-bold text-white">Verified Months</h3>
+          <p className="text-gray-400 mt-1 mb-4">Months covered by imported statements whose rows add up from the opening to the closing balance.</p>
+          <div className="space-y-3">
+            {[...verifiedMonths].map(([accountNumber, months]) => (
+              <div key={accountNumber} className="p-3 bg-slate-800/50 rounded-lg">
+                <p className="font-semibold text-white mb-2">{accountNumber ? `Account ••${accountNumber}` : 'Unspecified account'}</p>
+                <div className="flex flex-wrap gap-2">
+                  {months.map(m => (
+                    <span
+                      key={m.month}
+                      className={`text-xs font-bold p-1 px-2 rounded ${m.isComplete ? 'text-teal-400 bg-teal-500/10' : 'text-yellow-400 bg-yellow-500/10'}`}
+                      title={m.isComplete ? 'Every day of this month is covered' : 'Only part of this month is covered'}
+                    >
+                      {m.label}{m.isComplete ? '' : ' (part)'}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -1,12 +1,18 @@
 import React, { useState, useMemo } from 'react';
-import { Household, Expense, ParsedTransaction, Category, Member } from '../types';
+import { Household, Expense, Income, IncomeSource, ParsedTransaction, Category, Member, ImportBatch, ImportSource, ReconciledPeriod, StatementImport } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
+import { INCOME_SOURCES } from '../constants';
+import { getSelectableCategories, suggestIncomeSource } from '../utils/expenseUtils';
+import { sortCategoriesHierarchically } from '../utils/categoryUtils';
+import { findLikelyDuplicates } from '../utils/duplicateUtils';
+import { maskAccountNumber } from '../utils/statementFormats';
+import { reconcileStatement, checkRunningBalances } from '../utils/reconcileUtils';
+import { applySplitTemplate, describeSplitTemplate } from '../utils/splitUtils';
 
 interface ImportReviewProps {
-    transactions: Omit<ParsedTransaction, 'memberId'>[];
-    fileName: string;
-    onAddExpense: (expense: Omit<Expense, 'id'>) => Promise<void>;
+    sources: ImportSource[];
+    onImport: (statementImport: StatementImport) => Promise<boolean>;
     household: Household;
     onReset: () => void;
 }
@@ -15,20 +21,71 @@ const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
 };
 
-const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onAddExpense, household, onReset }) => {
+// Credits are imported as income, so they carry a source instead of using their category.
+// Rows whose bank transaction id has been imported before, or that look like an expense already
+// recorded, are flagged and start unselected. A balance gap means a row before this one is missing or misread.
+// sourceIndex points back into `sources`, since one review can hold several files. An empty
+// splitTemplateId means the payer covers the whole expense.
+type ReviewableTransaction = ParsedTransaction & { sourceIndex: number; incomeSource: IncomeSource; alreadyImported: boolean; duplicateOf?: Expense; balanceGap: boolean; splitTemplateId: string };
+
+// Accounts are told apart by their last four digits, since statements mask the rest.
+const getAccountKey = (accountNumber?: string) => (accountNumber || '').replace(/\D/g, '').slice(-4);
+
+const ImportReview: React.FC<ImportReviewProps> = ({ sources, onImport, household, onReset }) => {
+    const isMultiSource = sources.length > 1;
+    // Balances are checked file by file. A running balance column stands in for balances the statement doesn't print separately.
+    const sourceChecks = useMemo(() => sources.map(({ transactions, statementDetails }) => {
+        const runningBalances = checkRunningBalances(transactions);
+        return {
+            runningBalances,
+            reconciliation: reconcileStatement(transactions, statementDetails.openingBalance !== undefined ? statementDetails : { ...statementDetails, ...runningBalances }),
+        };
+    }), [sources]);
+    const transactions = useMemo(
+        () => sources.flatMap((source, sourceIndex) => source.transactions.map((t, index) => ({ ...t, sourceIndex, balanceGap: !!sourceChecks[sourceIndex].runningBalances?.breaks.has(index) }))),
+        [sources, sourceChecks]
+    );
+
     const initialReviewableTransactions = useMemo(() => {
-        const defaultMemberId = household.members[0]?.id || '';
-        return transactions
-            .filter(t => t.type === 'debit') // Only import expenses (debits)
-            .map(t => ({ ...t, memberId: defaultMemberId }));
-    }, [transactions, household.members]);
-
-    const [reviewableTransactions, setReviewableTransactions] = useState<ParsedTransaction[]>(initialReviewableTransactions);
-    const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set(initialReviewableTransactions.map((_, index) => index)));
+        // Rows from an account a bank profile has seen before start with the member they went to last time.
+        const defaultMemberIds = sources.map(source => {
+            const profile = household.bankProfiles.find(p => p.id === source.bankProfileId);
+            const rememberedId = profile?.accountMembers?.[getAccountKey(source.statementDetails.accountNumber)];
+            return household.members.find(m => m.id === rememberedId)?.id || household.members[0]?.id || '';
+        });
+        const existingExpenses = [...household.expenses, ...household.trips.flatMap(t => t.expenses)];
+        const knownExternalIds = new Set([...existingExpenses, ...household.incomes].map(r => r.externalId).filter(Boolean));
+        const duplicates = findLikelyDuplicates(transactions, existingExpenses);
+        return transactions.map((t, index) => {
+            const alreadyImported = !!t.externalId && knownExternalIds.has(t.externalId);
+            if (t.externalId) knownExternalIds.add(t.externalId); // also catches repeats within and across the files
+            return {
+                ...t,
+                memberId: defaultMemberIds[t.sourceIndex],
+                splitTemplateId: '',
+                incomeSource: suggestIncomeSource(t.description),
+                alreadyImported,
+                duplicateOf: alreadyImported ? undefined : duplicates.get(index),
+            };
+        });
+    }, [sources, transactions, household.members, household.bankProfiles, household.expenses, household.trips, household.incomes]);
+
+    const [reviewableTransactions, setReviewableTransactions] = useState<ReviewableTransaction[]>(initialReviewableTransactions);
+    const [selectedRows, setSelectedRows] = useState<Set<number>>(
+        new Set(initialReviewableTransactions.flatMap((t, index) => t.alreadyImported || t.duplicateOf ? [] : [index]))
+    );
     const [isImporting, setIsImporting] = useState(false);
+    // Looked up once, so that importing part of a file doesn't then flag the rest of it.
+    const [previousImports] = useState(() => sources.map(source => household.importBatches.find(b => b.fileHash === source.fileHash)));
+    // A statement's period is recorded as reconciled once, by the import that leaves none of its rows behind.
+    const [recordedSources, setRecordedSources] = useState<Set<number>>(new Set());
     
     const getCategory = (id: string): Category | undefined => household.categories.find(c => c.id === id);
     const getMember = (id: string): Member | undefined => household.members.find(m => m.id === id);
+    const getSplitDescription = (templateId: string): string | undefined => {
+        const template = household.splitTemplates.find(st => st.id === templateId);
+        return template && describeSplitTemplate(template, household.members);
+    };
 
     const handleSelectionChange = (index: number) => {
         const newSelection = new Set(selectedRows);
@@ -48,51 +105,124 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
         }
     };
     
-    const updateTransaction = (index: number, field: keyof ParsedTransaction, value: string) => {
+    const updateTransaction = (index: number, field: keyof ReviewableTransaction, value: string) => {
         const updated = [...reviewableTransactions];
         updated[index] = { ...updated[index], [field]: value };
         setReviewableTransactions(updated);
     };
 
+    const updateSelectedTransactions = (field: 'memberId' | 'splitTemplateId', value: string) => {
+        setReviewableTransactions(prev => prev.map((t, index) => selectedRows.has(index) ? { ...t, [field]: value } : t));
+    };
+
+    const createBatch = (sourceIndex: number, rowCount: number): { batch: ImportBatch; reconciledPeriod?: ReconciledPeriod } => {
+        const { fileName, fileHash, parser, statementDetails, transactions: sourceTransactions } = sources[sourceIndex];
+        const { reconciliation } = sourceChecks[sourceIndex];
+        const batch: ImportBatch = {
+            id: `batch-${crypto.randomUUID()}`,
+            fileName,
+            fileHash,
+            importedAt: new Date().toISOString(),
+            rowCount,
+            parser,
+        };
+        // Rows imported from an earlier copy of the file, or that duplicate an expense recorded by hand, are already in the books.
+        const leavesRowsBehind = reviewableTransactions.some((t, index) => t.sourceIndex === sourceIndex && !t.alreadyImported && !t.duplicateOf && !selectedRows.has(index));
+        if (reconciliation?.difference !== 0 || leavesRowsBehind || recordedSources.has(sourceIndex)) return { batch };
+        const dates = sourceTransactions.map(t => t.date).sort();
+        return {
+            batch,
+            reconciledPeriod: {
+                id: `rec-${crypto.randomUUID()}`,
+                accountNumber: getAccountKey(statementDetails.accountNumber),
+                periodStart: statementDetails.periodStart || dates[0],
+                periodEnd: statementDetails.periodEnd || dates[dates.length - 1],
+                openingBalance: reconciliation.openingBalance,
+                closingBalance: reconciliation.closingBalance,
+                reconciledAt: batch.importedAt,
+                importBatchId: batch.id,
+            },
+        };
+    };
+
     const handleImportSelected = async () => {
         setIsImporting(true);
+        // Each file gets its own batch, so it can be undone on its own from Import History.
+        const selectedBySource = new Map<number, number[]>();
+        selectedRows.forEach(index => {
+            const { sourceIndex } = reviewableTransactions[index];
+            selectedBySource.set(sourceIndex, [...(selectedBySource.get(sourceIndex) || []), index]);
+        });
+        const batches = [...selectedBySource].map(([sourceIndex, indices]) => ({ sourceIndex, indices, ...createBatch(sourceIndex, indices.length) }));
         const expensesToImport: Omit<Expense, 'id'>[] = [];
+        const incomesToImport: Omit<Income, 'id'>[] = [];
         const importedIndices = new Set<number>();
 
-        selectedRows.forEach(index => {
+        batches.forEach(({ batch, indices }) => indices.forEach(index => {
             const t = reviewableTransactions[index];
             const amountInCents = Math.round(t.amount * 100);
+            importedIndices.add(index);
+            if (t.type === 'credit') {
+                incomesToImport.push({
+                    description: t.description,
+                    amount: amountInCents,
+                    date: new Date(t.date).toISOString(),
+                    memberId: t.memberId,
+                    source: t.incomeSource,
+                    externalId: t.externalId,
+                    importBatchId: batch.id,
+                });
+                return;
+            }
+            // The payer covers the full amount unless a split template was chosen for the row.
+            const template = household.splitTemplates.find(st => st.id === t.splitTemplateId);
+            const templateSplits = template ? applySplitTemplate(amountInCents, template, household.members) : [];
             expensesToImport.push({
                 description: t.description,
                 amount: amountInCents,
                 date: new Date(t.date).toISOString(),
                 memberId: t.memberId,
                 categoryId: t.categoryId,
-                // For imported transactions, the payer covers the full amount by default.
-                // The user can manually split it later if needed.
-                splits: [{ memberId: t.memberId, amount: amountInCents }],
+                splits: templateSplits.length > 0 ? templateSplits : [{ memberId: t.memberId, amount: amountInCents }],
+                splitMode: templateSplits.length > 0 ? template?.mode : undefined,
+                externalId: t.externalId,
+                importBatchId: batch.id,
+                importMetadata: t.metadata,
             });
-            importedIndices.add(index);
+        }));
+
+        // Each bank profile remembers who most of an account's rows went to, as the default for its next statement.
+        const accountMemberUpdates = batches.flatMap(({ sourceIndex, indices }) => {
+            const { bankProfileId, statementDetails } = sources[sourceIndex];
+            const profile = household.bankProfiles.find(p => p.id === bankProfileId);
+            if (!profile) return [];
+            const counts = new Map<string, number>();
+            indices.forEach(index => counts.set(reviewableTransactions[index].memberId, (counts.get(reviewableTransactions[index].memberId) || 0) + 1));
+            const [memberId] = [...counts].sort((a, b) => b[1] - a[1])[0];
+            const accountKey = getAccountKey(statementDetails.accountNumber);
+            return profile.accountMembers?.[accountKey] === memberId ? [] : [{ profileId: profile.id, accountMembers: { ...profile.accountMembers, [accountKey]: memberId } }];
         });
 
-        try {
-            await Promise.all(expensesToImport.map(exp => onAddExpense(exp)));
-            
-            // Remove imported transactions from the review list
-            setReviewableTransactions(prev => prev.filter((_, index) => !importedIndices.has(index)));
-            setSelectedRows(new Set()); // Clear selection
-
-        } catch (error) {
-            console.error("Error during import:", error);
-            alert("An error occurred while importing expenses. Please try again.");
-        } finally {
-            setIsImporting(false);
-        }
+        // A failed import has already been reported, and its rows stay in the list to try again.
+        const imported = await onImport({
+            batches: batches.map(({ batch, reconciledPeriod }) => ({ batch, reconciledPeriod })),
+            expenses: expensesToImport,
+            incomes: incomesToImport,
+            accountMemberUpdates,
+        });
+        setIsImporting(false);
+        if (!imported) return;
+        setRecordedSources(prev => new Set([...prev, ...batches.filter(b => b.reconciledPeriod).map(b => b.sourceIndex)]));
+        // Remove imported transactions from the review list
+        setReviewableTransactions(prev => prev.filter((_, index) => !importedIndices.has(index)));
+        setSelectedRows(new Set()); // Clear selection
     };
 
     const allSelected = selectedRows.size === reviewableTransactions.length && reviewableTransactions.length > 0;
     const debitsFound = transactions.filter(t => t.type === 'debit').length;
     const creditsFound = transactions.length - debitsFound;
+    const alreadyImportedCount = reviewableTransactions.filter(t => t.alreadyImported).length;
+    const duplicateCount = reviewableTransactions.filter(t => t.duplicateOf).length;
 
     return (
         <Card className="animate-fade-in-up">
@@ -100,8 +230,38 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                 <div>
                     <h2 className="text-2xl font-bold text-white">Review & Import</h2>
                     <p className="text-gray-400 mt-1">
-                        Found {debitsFound} expenses and {creditsFound} income transactions in "{fileName}".
+                        Found {debitsFound} expenses and {creditsFound} income transactions {isMultiSource
+                            ? <>in {sources.length} files</>
+                            : <>in "{sources[0].fileName}"{sources[0].statementDetails.accountNumber && ` for account ${maskAccountNumber(sources[0].statementDetails.accountNumber)}`}</>}.
                     </p>
+                    {sources.map((source, sourceIndex) => {
+                        const { reconciliation } = sourceChecks[sourceIndex];
+                        const previousImport = previousImports[sourceIndex];
+                        // With several files, each line says which one it is about.
+                        const prefix = isMultiSource ? `${source.fileName}${source.statementDetails.accountNumber ? ` (${maskAccountNumber(source.statementDetails.accountNumber)})` : ''}: ` : '';
+                        return (
+                            <React.Fragment key={sourceIndex}>
+                                {reconciliation && (reconciliation.difference === 0 ? (
+                                    <p className="text-teal-400 text-sm mt-1">
+                                        {prefix}Balances reconcile: {formatCurrency(reconciliation.openingBalance / 100)} opening + {formatCurrency(reconciliation.credits / 100)} in − {formatCurrency(reconciliation.debits / 100)} out = {formatCurrency(reconciliation.closingBalance / 100)} closing.
+                                    </p>
+                                ) : (
+                                    <p className="text-pink-400 text-sm mt-1">
+                                        {prefix}Balances don't reconcile: these rows come to {formatCurrency((reconciliation.closingBalance - reconciliation.difference) / 100)} but the statement closes at {formatCurrency(reconciliation.closingBalance / 100)}, a difference of {formatCurrency(Math.abs(reconciliation.difference) / 100)}. Rows may be missing or misread; check against the statement before importing.
+                                    </p>
+                                ))}
+                                {previousImport && (
+                                    <p className="text-yellow-400 text-sm mt-1">{prefix}This file was already imported on {new Date(previousImport.importedAt).toLocaleDateString('en-CA')}. You can undo that import from Import History.</p>
+                                )}
+                            </React.Fragment>
+                        );
+                    })}
+                    {alreadyImportedCount > 0 && (
+                        <p className="text-yellow-400 text-sm mt-1">{alreadyImportedCount} transactions were already imported and have been unselected.</p>
+                    )}
+                    {duplicateCount > 0 && (
+                        <p className="text-yellow-400 text-sm mt-1">{duplicateCount} transactions look like expenses you've already recorded and have been unselected.</p>
+                    )}
                 </div>
                  <div className="flex gap-3">
                     <Button variant="secondary" onClick={onReset}>Start Over</Button>
@@ -111,6 +271,29 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                 </div>
             </div>
 
+            {selectedRows.size > 0 && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4 p-3 bg-slate-800/50 rounded-lg text-sm">
+                    <span className="text-gray-300">With the {selectedRows.size} selected:</span>
+                    <select
+                        value=""
+                        onChange={e => updateSelectedTransactions('memberId', e.target.value)}
+                        className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5"
+                    >
+                        <option value="" disabled>Assign to member...</option>
+                        {household.members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                    <select
+                        value="choose"
+                        onChange={e => updateSelectedTransactions('splitTemplateId', e.target.value)}
+                        className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5"
+                    >
+                        <option value="choose" disabled>Split expenses...</option>
+                        <option value="">Payer covers it all</option>
+                        {household.splitTemplates.map(st => <option key={st.id} value={st.id}>{st.name}</option>)}
+                    </select>
+                </div>
+            )}
+
             {reviewableTransactions.length > 0 ? (
                 <div className="overflow-x-auto">
                     <table className="w-full text-left text-sm responsive-table">
@@ -122,8 +305,9 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                                 <th className="p-3">Date</th>
                                 <th className="p-3">Description</th>
                                 <th className="p-3 text-right">Amount</th>
-                                <th className="p-3">Category</th>
-                                <th className="p-3">Paid By</th>
+                                <th className="p-3">Category / Source</th>
+                                <th className="p-3">Paid / Received By</th>
+                                <th className="p-3">Split</th>
                             </tr>
                         </thead>
                         <tbody>
@@ -133,18 +317,45 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                                         <input type="checkbox" checked={selectedRows.has(index)} onChange={() => handleSelectionChange(index)} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
                                     </td>
                                     <td data-label="Date" className="p-3 whitespace-nowrap">{new Date(t.date).toLocaleDateString('en-CA')}</td>
-                                    <td data-label="Description" className="p-3 text-gray-200">{t.description}</td>
-                                    <td data-label="Amount" className="p-3 text-right font-mono text-pink-400">-{formatCurrency(t.amount)}</td>
-                                    <td data-label="Category" className="p-3">
-                                        <select 
-                                            value={t.categoryId} 
-                                            onChange={e => updateTransaction(index, 'categoryId', e.target.value)} 
-                                            className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full md:max-w-[150px]"
-                                        >
-                                            {household.categories.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
-                                        </select>
+                                    <td data-label="Description" className="p-3 text-gray-200">
+                                        {t.description}
+                                        {t.alreadyImported && <span className="ml-2 text-xs font-bold text-yellow-400 p-1 bg-yellow-500/10 rounded">ALREADY IMPORTED</span>}
+                                        {t.balanceGap && <span className="ml-2 text-xs font-bold text-pink-400 p-1 bg-pink-500/10 rounded" title="The balance doesn't follow from the previous row, so a row may be missing or misread here.">BALANCE GAP</span>}
+                                        {t.duplicateOf && (
+                                            <>
+                                                <span className="ml-2 text-xs font-bold text-yellow-400 p-1 bg-yellow-500/10 rounded">POSSIBLE DUPLICATE</span>
+                                                <p className="text-xs text-gray-400 mt-1">
+                                                    Matches "{t.duplicateOf.description}" on {new Date(t.duplicateOf.date).toLocaleDateString('en-CA')}, paid by {getMember(t.duplicateOf.memberId)?.name || 'Unknown'}
+                                                </p>
+                                            </>
+                                        )}
+                                        {isMultiSource && <p className="text-xs text-gray-500 mt-1">{sources[t.sourceIndex].fileName}</p>}
+                                    </td>
+                                    {t.type === 'credit' ? (
+                                        <td data-label="Amount" className="p-3 text-right font-mono text-teal-400">+{formatCurrency(t.amount)}</td>
+                                    ) : (
+                                        <td data-label="Amount" className="p-3 text-right font-mono text-pink-400">-{formatCurrency(t.amount)}</td>
+                                    )}
+                                    <td data-label={t.type === 'credit' ? 'Source' : 'Category'} className="p-3">
+                                        {t.type === 'credit' ? (
+                                            <select
+                                                value={t.incomeSource}
+                                                onChange={e => updateTransaction(index, 'incomeSource', e.target.value)}
+                                                className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full md:max-w-[150px]"
+                                            >
+                                                {INCOME_SOURCES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                            </select>
+                                        ) : (
+                                            <select 
+                                                value={t.categoryId} 
+                                                onChange={e => updateTransaction(index, 'categoryId', e.target.value)} 
+                                                className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full md:max-w-[150px]"
+                                            >
+                                                {sortCategoriesHierarchically(getSelectableCategories(household.categories, t.categoryId)).map(c => <option key={c.id} value={c.id}>{'\u00A0\u00A0'.repeat(c.depth)}{c.icon} {c.name}</option>)}
+                                            </select>
+                                        )}
                                     </td>
-                                    <td data-label="Paid By" className="p-3">
+                                    <td data-label={t.type === 'credit' ? 'Received By' : 'Paid By'} className="p-3">
                                         <select 
                                             value={t.memberId} 
                                             onChange={e => updateTransaction(index, 'memberId', e.target.value)}
@@ -153,6 +364,21 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                                             {household.members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
                                         </select>
                                     </td>
+                                    <td data-label="Split" className="p-3">
+                                        {t.type === 'debit' ? (
+                                            <select
+                                                value={t.splitTemplateId}
+                                                onChange={e => updateTransaction(index, 'splitTemplateId', e.target.value)}
+                                                title={getSplitDescription(t.splitTemplateId)}
+                                                className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full md:max-w-[150px]"
+                                            >
+                                                <option value="">Payer only</option>
+                                                {household.splitTemplates.map(st => <option key={st.id} value={st.id}>{st.name}</option>)}
+                                            </select>
+                                        ) : (
+                                            <span className="text-gray-500">—</span>
+                                        )}
+                                    </td>
                                 </tr>
                             ))}
                         </tbody>
@@ -160,7 +386,7 @@ const ImportReview: React.FC<ImportReviewProps> = ({ transactions, fileName, onA
                 </div>
             ) : (
                 <div className="text-center py-10 text-gray-500">
-                    <p>All expenses from this file have been imported!</p>
+                    <p>All transactions from {isMultiSource ? 'these files' : 'this file'} have been imported!</p>
                 </div>
             )}
         </Card>
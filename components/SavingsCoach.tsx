@@ -1,9 +1,12 @@
 import React, { useState, useCallback } from 'react';
 import { Household, SavingsSuggestion } from '../types';
 import { generateSavingsSuggestions } from '../services/geminiService';
+import { getAiErrorMessage, withLocalFallback } from '../services/ai';
+import { suggestSavingsLocally } from '../utils/localAdvice';
 import Card from './common/Card';
 import Button from './common/Button';
 import SkeletonLoader from './common/SkeletonLoader';
+import FallbackNotice from './common/FallbackNotice';
 import { LightBulbIcon, SparklesIcon } from './icons/Icons';
 
 const formatCurrency = (amount: number): string => {
@@ -35,6 +38,7 @@ const SavingsCoach: React.FC<{ household: Household }> = ({ household }) => {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [hasAnalyzed, setHasAnalyzed] = useState(false);
+    const [fallbackReason, setFallbackReason] = useState<string | null>(null);
     
     const getCategoryIcon = (categoryName: string) => {
         return household.categories.find(c => c.name.toLowerCase() === categoryName.toLowerCase())?.icon || '💡';
@@ -45,11 +49,13 @@ const SavingsCoach: React.FC<{ household: Household }> = ({ household }) => {
         setError(null);
         setSuggestions([]);
         setHasAnalyzed(true);
+        setFallbackReason(null);
         try {
-            const results = await generateSavingsSuggestions(household);
-            setSuggestions(results);
+            const results = await withLocalFallback(() => generateSavingsSuggestions(household), () => suggestSavingsLocally(household));
+            setSuggestions(results.value);
+            setFallbackReason(results.fallbackReason);
         } catch (err) {
-            setError('Failed to get AI suggestions. Please try again later.');
+            setError(getAiErrorMessage(err, 'Failed to get AI suggestions. Please try again later.'));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -78,6 +84,7 @@ const SavingsCoach: React.FC<{ household: Household }> = ({ household }) => {
 
             {!isLoading && hasAnalyzed && (
                  <div className="space-y-4">
+                    {fallbackReason && <FallbackNotice reason={fallbackReason} />}
                     {suggestions.length > 0 ? (
                         suggestions.map((s, index) => (
                              <Card 
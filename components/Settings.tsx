@@ -1,15 +1,25 @@
-import React, { useState } from 'react';
-import { Household, Rule, Budget, Member } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Household, Rule, Budget, Member, Category, SplitTemplate, AiFeature, AiPayloadLogEntry, BudgetSuggestion } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
 import { TrashIcon, SparklesIcon, PencilIcon, PlusIcon } from './icons/Icons';
 import { generateBudgetSuggestions, generateIncomeBasedBudget } from '../services/geminiService';
 import SkeletonLoader from './common/SkeletonLoader';
+import ProgressBar from './common/ProgressBar';
+import FallbackNotice from './common/FallbackNotice';
 import EditMemberModal from './EditMemberModal';
+import EditCategoryModal from './EditCategoryModal';
+import { getSelectableCategories } from '../utils/expenseUtils';
+import { sortCategoriesHierarchically, getCategoryLabel } from '../utils/categoryUtils';
+import { validateSplitWeights, describeSplitTemplate } from '../utils/splitUtils';
+import { suggestBudgetsFromHistory, suggestBudgetsFromIncome } from '../utils/localAdvice';
+import * as db from '../services/db';
+import { getAiErrorMessage, withLocalFallback, getAiUsageDay, DEFAULT_GEMINI_MODEL, DEFAULT_OPENAI_COMPATIBLE_BASE_URL, DEFAULT_OPENAI_COMPATIBLE_MODEL } from '../services/ai';
+import { AI_PROVIDERS, AI_FEATURES } from '../constants';
 
 interface SettingsProps {
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const formatCurrency = (amountInCents: number): string => {
@@ -17,6 +27,19 @@ const formatCurrency = (amountInCents: number): string => {
     return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
 };
 
+const TEMPLATE_MODES: { mode: SplitTemplate['mode']; label: string }[] = [
+  { mode: 'equal', label: 'Equally' },
+  { mode: 'percentage', label: '%' },
+  { mode: 'shares', label: 'Shares' },
+];
+
+// Everyone in, with percentages that add up to exactly 100.
+const getDefaultTemplateWeights = (mode: SplitTemplate['mode'], members: Member[]): Record<string, number> => {
+  if (mode !== 'percentage') return Object.fromEntries(members.map(m => [m.id, 1]));
+  const even = Math.floor(10000 / members.length) / 100;
+  return Object.fromEntries(members.map((m, index) => [m.id, index === 0 ? Math.round((100 - even * (members.length - 1)) * 100) / 100 : even]));
+};
+
 const ToggleSwitch: React.FC<{ enabled: boolean, onChange: (enabled: boolean) => void }> = ({ enabled, onChange }) => {
     return (
         <button
@@ -35,50 +58,69 @@ const ToggleSwitch: React.FC<{ enabled: boolean, onChange: (enabled: boolean) =>
 
 const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
   const [newRuleKeyword, setNewRuleKeyword] = useState('');
-  const [newRuleCategoryId, setNewRuleCategoryId] = useState(household.categories[0]?.id || '');
+  const [newRuleCategoryId, setNewRuleCategoryId] = useState(getSelectableCategories(household.categories)[0]?.id || '');
 
   const [isGeneratingBudgets, setIsGeneratingBudgets] = useState(false);
-  const [budgetSuggestions, setBudgetSuggestions] = useState<Array<{ categoryId: string; amount: number; reasoning: string }> | null>(null);
+  const [budgetSuggestions, setBudgetSuggestions] = useState<BudgetSuggestion[] | null>(null);
+  const [budgetFallbackReason, setBudgetFallbackReason] = useState<string | null>(null);
 
   const [isEditMemberModalOpen, setIsEditMemberModalOpen] = useState(false);
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
 
+  const [isEditCategoryModalOpen, setIsEditCategoryModalOpen] = useState(false);
+  const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+
+  const [newTemplateName, setNewTemplateName] = useState('');
+  const [newTemplateMode, setNewTemplateMode] = useState<SplitTemplate['mode']>('equal');
+  const [newTemplateWeights, setNewTemplateWeights] = useState<Record<string, number>>(() => getDefaultTemplateWeights('equal', household.members));
+
+  const [payloadLog, setPayloadLog] = useState<AiPayloadLogEntry[] | null>(null);
+  const [aiUsage, setAiUsage] = useState<{ callsToday: number; cachedResponses: number } | null>(null);
+
+  const activeCategories = sortCategoriesHierarchically(getSelectableCategories(household.categories));
+  const templateWeightError = validateSplitWeights(newTemplateMode, household.members.map(m => ({ memberId: m.id, weight: newTemplateWeights[m.id] || 0 })));
+
   const handleOpenMemberModal = (member: Member | null) => {
       setSelectedMember(member);
       setIsEditMemberModalOpen(true);
   };
 
+  const handleOpenCategoryModal = (category: Category | null) => {
+      setSelectedCategory(category);
+      setIsEditCategoryModalOpen(true);
+  };
+
 
   const handleBudgetChange = (categoryId: string, newAmount: string) => {
       const amountInCents = Math.round(parseFloat(newAmount || '0') * 100);
       const existingBudget = household.budgets.find(b => b.categoryId === categoryId);
-      let newBudgets: Budget[];
-
-      if (existingBudget) {
-          newBudgets = household.budgets.map(b => b.categoryId === categoryId ? { ...b, amount: amountInCents } : b)
-      } else {
-          const newBudget: Budget = { id: `bud-${categoryId}`, categoryId, amount: amountInCents };
-          newBudgets = [...household.budgets, newBudget];
-      }
-      onUpdate({ budgets: newBudgets });
+      const budget: Budget = existingBudget
+          ? { ...existingBudget, amount: amountInCents }
+          : { id: `bud-${categoryId}`, categoryId, amount: amountInCents };
+      onUpdate(() => db.upsertBudget(budget));
   };
 
   const handleIncomeChange = (newAmount: string) => {
       const amountInCents = Math.round(parseFloat(newAmount || '0') * 100);
-      onUpdate({ monthlyIncome: amountInCents });
+      onUpdate(() => db.updateSettings({ monthlyIncome: amountInCents }));
   };
 
   const handleGenerateBudgetsFromSpending = async () => {
       setIsGeneratingBudgets(true);
       setBudgetSuggestions(null);
       try {
-          const suggestions = await generateBudgetSuggestions(household);
-          setBudgetSuggestions(suggestions);
+          const suggestions = await withLocalFallback(
+              () => generateBudgetSuggestions(household),
+              () => suggestBudgetsFromHistory(household.expenses, activeCategories),
+          );
+          setBudgetSuggestions(suggestions.value);
+          setBudgetFallbackReason(suggestions.fallbackReason);
       } catch (error) {
           console.error("Failed to generate budget suggestions from spending:", error);
-          alert("Could not generate AI budget suggestions. Please try again.");
+          alert(getAiErrorMessage(error, "Could not generate AI budget suggestions. Please try again."));
       } finally {
           setIsGeneratingBudgets(false);
+          refreshAiUsage();
       }
   };
   
@@ -90,19 +132,24 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
       setIsGeneratingBudgets(true);
       setBudgetSuggestions(null);
       try {
-          const suggestions = await generateIncomeBasedBudget(household.monthlyIncome, household.categories);
-          setBudgetSuggestions(suggestions);
+          const suggestions = await withLocalFallback(
+              () => generateIncomeBasedBudget(household, activeCategories),
+              () => suggestBudgetsFromIncome(household.monthlyIncome, activeCategories),
+          );
+          setBudgetSuggestions(suggestions.value);
+          setBudgetFallbackReason(suggestions.fallbackReason);
       } catch (error) {
           console.error("Failed to generate budget suggestions from income:", error);
-          alert("Could not generate AI budget suggestions. Please try again.");
+          alert(getAiErrorMessage(error, "Could not generate AI budget suggestions. Please try again."));
       } finally {
           setIsGeneratingBudgets(false);
+          refreshAiUsage();
       }
   };
 
   const handleApplySuggestions = () => {
       if (!budgetSuggestions) return;
-      const newBudgets: Budget[] = household.categories.map(category => {
+      const newBudgets: Budget[] = activeCategories.map(category => {
           const suggestion = budgetSuggestions.find(s => s.categoryId === category.id);
           const existingBudget = household.budgets.find(b => b.categoryId === category.id);
 
@@ -112,7 +159,7 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
           return existingBudget || { id: `bud-${category.id}`, categoryId: category.id, amount: 0 };
       });
 
-      onUpdate({ budgets: newBudgets });
+      onUpdate(() => db.upsertBudgets(newBudgets));
       setBudgetSuggestions(null); // Clear suggestions after applying
   };
 
@@ -126,17 +173,74 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
       categoryId: newRuleCategoryId,
     };
 
-    onUpdate({ rules: [...household.rules, newRule] });
+    onUpdate(() => db.upsertRule(newRule));
     setNewRuleKeyword('');
-    setNewRuleCategoryId(household.categories[0]?.id || '');
+    setNewRuleCategoryId(activeCategories[0]?.id || '');
   };
   
   const handleDeleteRule = (ruleId: string) => {
-    onUpdate({ rules: household.rules.filter(rule => rule.id !== ruleId) });
+    onUpdate(() => db.deleteRule(ruleId));
   };
 
+  const handleTemplateModeChange = (mode: SplitTemplate['mode']) => {
+    setNewTemplateMode(mode);
+    setNewTemplateWeights(getDefaultTemplateWeights(mode, household.members));
+  };
+
+  const handleAddTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTemplateName.trim() || templateWeightError) return;
+
+    const template: SplitTemplate = {
+      id: `split-${crypto.randomUUID()}`,
+      name: newTemplateName.trim(),
+      mode: newTemplateMode,
+      weights: Object.fromEntries(household.members.map(m => [m.id, newTemplateWeights[m.id] || 0])),
+    };
+
+    onUpdate(() => db.upsertSplitTemplate(template));
+    setNewTemplateName('');
+    handleTemplateModeChange('equal');
+  };
+
+  const handleDeleteTemplate = (template: SplitTemplate) => {
+    if (window.confirm(`Delete the "${template.name}" split template?`)) {
+      onUpdate(() => db.deleteSplitTemplate(template.id));
+    }
+  };
+
+  const refreshAiUsage = () => {
+      db.loadAiUsage(getAiUsageDay()).then(setAiUsage);
+  };
+
+  // Calls made elsewhere don't change the household, so this is read whenever Settings is shown.
+  useEffect(refreshAiUsage, [household]);
+
   const handleEmailAlertsToggle = (enabled: boolean) => {
-      onUpdate({ emailAlertsEnabled: enabled });
+      onUpdate(() => db.updateSettings({ emailAlertsEnabled: enabled }));
+  };
+
+  const handleAiSettingsChange = (settings: Partial<Pick<Household, 'aiProvider' | 'aiBaseUrl' | 'aiModel' | 'aiBucketAmounts' | 'aiDailyCallLimit'>>) => {
+      onUpdate(() => db.updateSettings(settings));
+  };
+
+  const handleConsentChange = (feature: AiFeature, value: string) => {
+      onUpdate(() => db.setAiConsent(feature, value === 'ask' ? undefined : value === 'allowed'));
+  };
+
+  const handleClearAiCache = async () => {
+      await onUpdate(() => db.clearAiResponseCache());
+      refreshAiUsage();
+  };
+
+  const handleTogglePayloadLog = async () => {
+      setPayloadLog(payloadLog ? null : await db.loadAiPayloadLog());
+  };
+
+  const handleClearPayloadLog = async () => {
+      if (window.confirm("Clear the log of what was sent to AI providers?")) {
+          if (await onUpdate(() => db.clearAiPayloadLog())) setPayloadLog([]);
+      }
   };
 
   return (
@@ -165,6 +269,31 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
         </div>
       </Card>
       
+      <Card>
+        <h3 className="text-xl font-bold text-white mb-4">Manage Categories</h3>
+        <div className="space-y-3">
+            {sortCategoriesHierarchically(household.categories).map(category => (
+                <div key={category.id} className={`flex items-center justify-between p-3 bg-slate-800/50 rounded-lg ${category.isArchived ? 'opacity-60' : ''}`} style={{ marginLeft: `${category.depth * 1.5}rem` }}>
+                    <div className="flex items-center gap-3">
+                        <span className="text-2xl">{category.icon}</span>
+                        <span className="font-semibold text-lg text-white">{category.name}</span>
+                        {category.isArchived && <span className="text-gray-400 text-xs font-bold p-1 bg-slate-500/20 rounded">ARCHIVED</span>}
+                    </div>
+                    <Button variant="secondary" size="sm" onClick={() => handleOpenCategoryModal(category)}>
+                        <PencilIcon className="w-4 h-4" />
+                        <span className="ml-2 hidden sm:inline">Edit</span>
+                    </Button>
+                </div>
+            ))}
+        </div>
+        <div className="mt-4 border-t border-slate-700/50 pt-4">
+            <Button onClick={() => handleOpenCategoryModal(null)} className="w-full">
+                <PlusIcon className="w-5 h-5" />
+                <span>Add New Category</span>
+            </Button>
+        </div>
+      </Card>
+
       <Card>
         <h3 className="text-xl font-bold text-white mb-4">Financial Profile</h3>
          <div className="p-3 bg-slate-800/50 rounded-lg">
@@ -198,14 +327,164 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
         </div>
       </Card>
 
+      <Card>
+        <h3 className="text-xl font-bold text-white mb-1">AI Provider</h3>
+        <p className="text-gray-400 mb-4">Where receipt scanning, statement reading, reports, suggestions and the chat assistant get their answers.</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {AI_PROVIDERS.map(provider => (
+                <button
+                    key={provider.id}
+                    type="button"
+                    onClick={() => handleAiSettingsChange({ aiProvider: provider.id })}
+                    className={`text-left p-3 rounded-lg border transition-colors ${household.aiProvider === provider.id ? 'border-pink-500 bg-pink-500/10' : 'border-slate-700 bg-slate-800/50 hover:border-slate-500'}`}
+                >
+                    <p className="font-semibold text-white">{provider.label}</p>
+                    <p className="text-sm text-gray-400 mt-1">{provider.description}</p>
+                </button>
+            ))}
+        </div>
+        {household.aiProvider !== 'mock' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-4">
+                {household.aiProvider === 'openai-compatible' && (
+                    <div>
+                        <label htmlFor="aiBaseUrl" className="block text-sm font-medium text-gray-300">Server URL</label>
+                        <input
+                            type="url"
+                            id="aiBaseUrl"
+                            key={household.aiBaseUrl || ''}
+                            defaultValue={household.aiBaseUrl || ''}
+                            onBlur={e => e.target.value !== (household.aiBaseUrl || '') && handleAiSettingsChange({ aiBaseUrl: e.target.value })}
+                            placeholder={DEFAULT_OPENAI_COMPATIBLE_BASE_URL}
+                            className="mt-1 w-full bg-slate-700 border-slate-600 rounded-md shadow-sm"
+                        />
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="aiModel" className="block text-sm font-medium text-gray-300">Model</label>
+                    <input
+                        type="text"
+                        id="aiModel"
+                        key={household.aiModel || ''}
+                        defaultValue={household.aiModel || ''}
+                        onBlur={e => e.target.value !== (household.aiModel || '') && handleAiSettingsChange({ aiModel: e.target.value })}
+                        placeholder={household.aiProvider === 'gemini' ? DEFAULT_GEMINI_MODEL : DEFAULT_OPENAI_COMPATIBLE_MODEL}
+                        className="mt-1 w-full bg-slate-700 border-slate-600 rounded-md shadow-sm"
+                    />
+                </div>
+            </div>
+        )}
+        {household.aiProvider === 'openai-compatible' && (
+            <p className="text-xs text-gray-500 mt-2">Statement PDFs can't be read by local models; upload a photo or screenshot instead. Leave the fields blank to use the defaults shown.</p>
+        )}
+      </Card>
+
+      <Card>
+        <h3 className="text-xl font-bold text-white mb-1">AI Usage</h3>
+        <p className="text-gray-400 mb-4">
+            Asking again with unchanged data is answered from a cache on this device, for a few hours up to a month depending on the feature.
+            Busy or failing servers are retried a few times, and each attempt counts towards the daily limit.
+        </p>
+        <div className="p-3 bg-slate-800/50 rounded-lg space-y-3">
+            <div className="flex justify-between items-center text-sm">
+                <span className="text-gray-300">Calls today</span>
+                <span className="font-semibold text-white">
+                    {aiUsage?.callsToday ?? 0}{household.aiDailyCallLimit > 0 ? ` of ${household.aiDailyCallLimit}` : ''}
+                </span>
+            </div>
+            {household.aiDailyCallLimit > 0 && (
+                <ProgressBar
+                    value={Math.min(aiUsage?.callsToday ?? 0, household.aiDailyCallLimit)}
+                    max={household.aiDailyCallLimit}
+                    color={(aiUsage?.callsToday ?? 0) >= household.aiDailyCallLimit ? 'red' : 'indigo'}
+                />
+            )}
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                <label htmlFor="aiDailyCallLimit" className="text-sm text-gray-300">Daily limit (0 for no limit)</label>
+                <input
+                    type="number"
+                    id="aiDailyCallLimit"
+                    min="0"
+                    key={household.aiDailyCallLimit}
+                    defaultValue={household.aiDailyCallLimit}
+                    onBlur={e => Number(e.target.value) !== household.aiDailyCallLimit && handleAiSettingsChange({ aiDailyCallLimit: Number(e.target.value) || 0 })}
+                    className="w-full sm:w-32 bg-slate-700 border-slate-600 rounded-md shadow-sm"
+                />
+            </div>
+        </div>
+        <div className="flex justify-between items-center mt-4">
+            <p className="text-sm text-gray-400">{aiUsage?.cachedResponses ?? 0} cached answers</p>
+            <Button variant="secondary" size="sm" onClick={handleClearAiCache} disabled={!aiUsage?.cachedResponses}>Clear Cache</Button>
+        </div>
+      </Card>
+
+      <Card>
+        <h3 className="text-xl font-bold text-white mb-1">AI Privacy</h3>
+        <p className="text-gray-400 mb-4">
+            Before anything is sent, member names become "Member A", "Member B"… and UPI IDs, IFSC codes and account, card and phone numbers are removed.
+            Each feature asks the first time it's used. The offline demo provider sends nothing.
+        </p>
+        <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg mb-4">
+            <div>
+                <p className="font-semibold text-white">Round Amounts</p>
+                <p className="text-sm text-gray-400">The chat, spending report and subscription scan send amounts rounded to 1, 2 or 5 followed by zeros, so ₹1,780 is sent as ₹2,000.</p>
+            </div>
+            <ToggleSwitch enabled={household.aiBucketAmounts} onChange={enabled => handleAiSettingsChange({ aiBucketAmounts: enabled })} />
+        </div>
+        <div className="space-y-2">
+            {AI_FEATURES.map(({ feature, label, sends }) => {
+                const consent = household.aiConsent[feature];
+                return (
+                    <div key={feature} className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 p-3 bg-slate-800/50 rounded-lg">
+                        <div>
+                            <p className="font-semibold text-white">{label}</p>
+                            <p className="text-sm text-gray-400">Sends {sends}.</p>
+                        </div>
+                        <select
+                            value={consent === undefined ? 'ask' : consent ? 'allowed' : 'blocked'}
+                            onChange={e => handleConsentChange(feature, e.target.value)}
+                            className="bg-slate-700 border-slate-600 rounded-md text-sm"
+                        >
+                            <option value="ask">Ask first</option>
+                            <option value="allowed">Allowed</option>
+                            <option value="blocked">Not allowed</option>
+                        </select>
+                    </div>
+                );
+            })}
+        </div>
+        <div className="flex justify-between items-center mt-6 mb-2">
+            <h4 className="font-semibold text-white">Sent Data Log</h4>
+            <div className="flex gap-2">
+                {payloadLog && payloadLog.length > 0 && <Button variant="danger" size="sm" onClick={handleClearPayloadLog}>Clear Log</Button>}
+                <Button variant="secondary" size="sm" onClick={handleTogglePayloadLog}>{payloadLog ? 'Hide' : 'Show What Was Sent'}</Button>
+            </div>
+        </div>
+        {payloadLog && (payloadLog.length > 0 ? (
+            <div className="space-y-2">
+                {payloadLog.map(entry => (
+                    <details key={entry.id} className="p-3 bg-slate-800/50 rounded-lg">
+                        <summary className="cursor-pointer text-sm text-gray-300">
+                            {AI_FEATURES.find(f => f.feature === entry.feature)?.label || entry.feature}
+                            {' · '}{AI_PROVIDERS.find(p => p.id === entry.provider)?.label || entry.provider}
+                            {' · '}{new Date(entry.sentAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                        </summary>
+                        <pre className="mt-2 text-xs text-gray-400 whitespace-pre-wrap break-words max-h-80 overflow-y-auto">{entry.payload}</pre>
+                    </details>
+                ))}
+            </div>
+        ) : (
+            <p className="text-sm text-gray-500">Nothing has been sent yet. The latest 100 requests are kept.</p>
+        ))}
+      </Card>
+
       <Card>
         <h3 className="text-xl font-bold text-white mb-4">Manage Monthly Budgets</h3>
         <div className="space-y-3">
-            {household.categories.map(category => {
+            {activeCategories.map(category => {
                 const budget = household.budgets.find(b => b.categoryId === category.id);
                 return (
                     <div key={category.id} className="flex items-center justify-between gap-4 p-2 bg-slate-800/50 rounded-lg">
-                        <label htmlFor={`budget-${category.id}`} className="flex-1 font-semibold text-gray-200">
+                        <label htmlFor={`budget-${category.id}`} className="flex-1 font-semibold text-gray-200" style={{ paddingLeft: `${category.depth * 1.5}rem` }}>
                             {category.icon} {category.name}
                         </label>
                         <div className="flex items-center gap-2">
@@ -249,7 +528,8 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
 
             {budgetSuggestions && (
                 <div className="mt-6 space-y-4">
-                    <h5 className="font-bold text-white">AI Suggestions:</h5>
+                    <h5 className="font-bold text-white">{budgetFallbackReason ? 'Suggestions:' : 'AI Suggestions:'}</h5>
+                    {budgetFallbackReason && <FallbackNotice reason={budgetFallbackReason} />}
                     <div className="space-y-3">
                         {budgetSuggestions.map(suggestion => {
                             const category = household.categories.find(c => c.id === suggestion.categoryId);
@@ -264,10 +544,11 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
                                 </div>
                             );
                         })}
+                        {budgetSuggestions.length === 0 && <p className="text-sm text-gray-500">There isn't enough spending history from the last few months to suggest budgets yet.</p>}
                     </div>
                     <div className="flex justify-end gap-3">
                         <Button variant="secondary" onClick={() => setBudgetSuggestions(null)}>Dismiss</Button>
-                        <Button onClick={handleApplySuggestions}>Apply Suggestions</Button>
+                        <Button onClick={handleApplySuggestions} disabled={budgetSuggestions.length === 0}>Apply Suggestions</Button>
                     </div>
                 </div>
             )}
@@ -283,7 +564,7 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
                     className="flex justify-between items-center p-2 bg-slate-800/50 rounded-lg animate-fade-in-up"
                     style={{ animationDelay: `${index * 50}ms` }}
                 >
-                    <span>If description contains "<span className="font-mono text-purple-400">{rule.keyword}</span>", categorize as <span className="font-semibold text-gray-200">{household.categories.find(c => c.id === rule.categoryId)?.name}</span></span>
+                    <span>If description contains "<span className="font-mono text-purple-400">{rule.keyword}</span>", categorize as <span className="font-semibold text-gray-200">{getCategoryLabel(rule.categoryId, household.categories)}</span></span>
                     <Button variant="danger" size="sm" onClick={() => handleDeleteRule(rule.id)} className="p-1.5">
                         <TrashIcon className="w-4 h-4" />
                     </Button>
@@ -306,13 +587,87 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
                 className="bg-slate-700 border-slate-600 rounded-md shadow-sm"
                 required
             >
-                {household.categories.map(cat => (
-                  <option key={cat.id} value={cat.id}>{cat.name}</option>
+                {activeCategories.map(cat => (
+                  <option key={cat.id} value={cat.id}>{getCategoryLabel(cat.id, household.categories)}</option>
                 ))}
             </select>
             <Button type="submit">Add Rule</Button>
         </form>
       </Card>
+
+      <Card>
+        <h3 className="text-xl font-bold text-white mb-1">Split Templates</h3>
+        <p className="text-gray-400 text-sm mb-4">Saved ways of sharing expenses, which you can apply to rows when importing statements.</p>
+        <div className="space-y-2 mb-6">
+            {household.splitTemplates.map(template => (
+                <div key={template.id} className="flex justify-between items-center p-2 bg-slate-800/50 rounded-lg">
+                    <span><span className="font-semibold text-gray-200">{template.name}</span> <span className="text-gray-400">— {describeSplitTemplate(template, household.members)}</span></span>
+                    <Button variant="danger" size="sm" onClick={() => handleDeleteTemplate(template)} className="p-1.5">
+                        <TrashIcon className="w-4 h-4" />
+                    </Button>
+                </div>
+            ))}
+        </div>
+
+        <form onSubmit={handleAddTemplate} className="space-y-3 border-t border-slate-700/50 pt-4">
+            <div className="flex flex-col sm:flex-row gap-3">
+                <input
+                    type="text"
+                    placeholder="Template name (e.g., 60/40 rent)"
+                    value={newTemplateName}
+                    onChange={e => setNewTemplateName(e.target.value)}
+                    className="flex-1 bg-slate-700 border-slate-600 rounded-md shadow-sm"
+                    required
+                />
+                <div className="flex bg-slate-800 rounded-lg p-1" role="group" aria-label="Split mode">
+                    {TEMPLATE_MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            type="button"
+                            onClick={() => handleTemplateModeChange(mode)}
+                            className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${newTemplateMode === mode ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {household.members.map(member => (
+                    <div key={member.id} className="flex items-center gap-3 p-2 bg-slate-800/50 rounded-lg">
+                        <img src={member.avatarUrl} alt={member.name} className="w-8 h-8 rounded-full" />
+                        <label htmlFor={`template-${member.id}`} className="flex-1 text-gray-300">{member.name}</label>
+                        {newTemplateMode === 'equal' ? (
+                            <input
+                                type="checkbox"
+                                id={`template-${member.id}`}
+                                checked={(newTemplateWeights[member.id] || 0) > 0}
+                                onChange={e => setNewTemplateWeights(prev => ({ ...prev, [member.id]: e.target.checked ? 1 : 0 }))}
+                                className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500"
+                            />
+                        ) : (
+                            <div className="relative">
+                                <input
+                                    type="number"
+                                    id={`template-${member.id}`}
+                                    value={newTemplateWeights[member.id] ?? 0}
+                                    onChange={e => setNewTemplateWeights(prev => ({ ...prev, [member.id]: parseFloat(e.target.value) || 0 }))}
+                                    className="w-24 bg-slate-700 border-slate-600 rounded-md shadow-sm text-right pr-7"
+                                    min="0"
+                                    step={newTemplateMode === 'percentage' ? '0.01' : '1'}
+                                />
+                                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">{newTemplateMode === 'percentage' ? '%' : '×'}</span>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between items-center gap-3">
+                <p className="text-sm text-red-300">{templateWeightError}</p>
+                <Button type="submit" disabled={!!templateWeightError}>Add Template</Button>
+            </div>
+        </form>
+      </Card>
       {isEditMemberModalOpen && (
         <EditMemberModal
             isOpen={isEditMemberModalOpen}
@@ -322,6 +677,15 @@ const Settings: React.FC<SettingsProps> = ({ household, onUpdate }) => {
             onUpdate={onUpdate}
         />
       )}
+      {isEditCategoryModalOpen && (
+        <EditCategoryModal
+            isOpen={isEditCategoryModalOpen}
+            onClose={() => setIsEditCategoryModalOpen(false)}
+            category={selectedCategory}
+            household={household}
+            onUpdate={onUpdate}
+        />
+      )}
     </div>
   );
 };
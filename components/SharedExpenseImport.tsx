@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { Household, Expense, Settlement, Split, Member, ImportBatch } from '../types';
+import Card from './common/Card';
+import Button from './common/Button';
+import * as db from '../services/db';
+import { SharedLedger, SharedLedgerRow } from '../utils/sharedLedgerImport';
+import { getSelectableCategories, suggestCategory } from '../utils/expenseUtils';
+import { sortCategoriesHierarchically } from '../utils/categoryUtils';
+import { findLikelyDuplicates } from '../utils/duplicateUtils';
+
+interface SharedExpenseImportProps {
+  ledger: SharedLedger;
+  fileName: string;
+  fileHash: string;
+  household: Household;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
+  onBack: () => void;
+}
+
+// Rows in another currency, or that look like an expense already recorded, start unselected.
+type PreviewRow = SharedLedgerRow & { categoryId: string; duplicateOf?: Expense; isForeignCurrency: boolean };
+
+const formatCurrency = (amountInCents: number): string => {
+  const amount = amountInCents / 100;
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+};
+
+// "Alice Smith" in Splitwise is taken to be a member called "Alice" when no member has the full name.
+const guessMember = (person: string, members: Member[]): string => {
+  const name = person.trim().toLowerCase();
+  const firstName = name.split(/\s+/)[0];
+  return (members.find(m => m.name.toLowerCase() === name) || members.find(m => m.name.toLowerCase().split(/\s+/)[0] === firstName))?.id || '';
+};
+
+// Several people can map onto one member, e.g. "Mom" and "Mother", so their shares are added together.
+const toSplits = (shares: Record<string, number>, personMembers: Record<string, string>): Split[] => {
+  const byMember = new Map<string, number>();
+  Object.entries(shares).forEach(([person, amount]) => {
+    const memberId = personMembers[person];
+    byMember.set(memberId, (byMember.get(memberId) || 0) + amount);
+  });
+  return [...byMember].map(([memberId, amount]) => ({ memberId, amount }));
+};
+
+const SharedExpenseImport: React.FC<SharedExpenseImportProps> = ({ ledger, fileName, fileHash, household, onUpdate, onBack }) => {
+  const [step, setStep] = useState<'people' | 'preview'>('people');
+  const [personMembers, setPersonMembers] = useState<Record<string, string>>(
+    () => Object.fromEntries(ledger.people.map(person => [person, guessMember(person, household.members)]))
+  );
+  const [rows, setRows] = useState<PreviewRow[]>(() => {
+    const { categories, rules } = household;
+    const selectable = getSelectableCategories(categories);
+    const fallbackCategoryId = categories.find(c => c.name.toLowerCase() === 'other')?.id || categories[0]?.id || '';
+    const existingExpenses = [...household.expenses, ...household.trips.flatMap(t => t.expenses)];
+    const duplicates = findLikelyDuplicates(
+      ledger.rows.map(r => ({ date: r.date, description: r.description, amount: r.amount / 100, type: r.paidTo ? 'credit' : 'debit' })),
+      existingExpenses
+    );
+    return ledger.rows.map((row, index) => ({
+      ...row,
+      categoryId: selectable.find(c => c.name.toLowerCase() === row.category.toLowerCase())?.id
+        || suggestCategory(row.description, rules, categories)
+        || fallbackCategoryId,
+      duplicateOf: duplicates.get(index),
+      isForeignCurrency: !!row.currency && row.currency.toUpperCase() !== 'INR',
+    }));
+  });
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [imported, setImported] = useState<{ expenses: number; settlements: number } | null>(null);
+  const [previousImport] = useState(() => household.importBatches.find(b => b.fileHash === fileHash));
+
+  const getMemberName = (id: string) => household.members.find(m => m.id === id)?.name || 'Unknown';
+  // Once people are mapped, a payment can turn out to be between two names for the same member.
+  const isSelfPayment = (row: PreviewRow) => !!row.paidTo && personMembers[row.paidBy] === personMembers[row.paidTo];
+
+  const handleContinue = () => {
+    setSelectedRows(new Set(rows.flatMap((row, index) => row.duplicateOf || row.isForeignCurrency || isSelfPayment(row) ? [] : [index])));
+    setStep('preview');
+  };
+
+  const handleSelectionChange = (index: number) => {
+    const newSelection = new Set(selectedRows);
+    if (newSelection.has(index)) {
+      newSelection.delete(index);
+    } else {
+      newSelection.add(index);
+    }
+    setSelectedRows(newSelection);
+  };
+
+  const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedRows(e.target.checked ? new Set(rows.flatMap((row, index) => isSelfPayment(row) ? [] : [index])) : new Set());
+  };
+
+  const handleCategoryChange = (index: number, categoryId: string) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, categoryId } : row));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const batch: ImportBatch = {
+      id: `batch-${crypto.randomUUID()}`,
+      fileName,
+      fileHash,
+      importedAt: new Date().toISOString(),
+      rowCount: selectedRows.size,
+      parser: ledger.format,
+    };
+    const expenses: Expense[] = [];
+    const settlements: Settlement[] = [];
+    selectedRows.forEach(index => {
+      const row = rows[index];
+      const date = new Date(row.date).toISOString();
+      if (row.paidTo) {
+        settlements.push({
+          id: `set-${crypto.randomUUID()}`,
+          fromMemberId: personMembers[row.paidBy],
+          toMemberId: personMembers[row.paidTo],
+          amount: row.amount,
+          date,
+          note: row.description,
+          importBatchId: batch.id,
+        });
+        return;
+      }
+      expenses.push({
+        id: `exp-${crypto.randomUUID()}`,
+        description: row.description,
+        amount: row.amount,
+        date,
+        memberId: personMembers[row.paidBy],
+        categoryId: row.categoryId,
+        splits: toSplits(row.shares, personMembers),
+        importBatchId: batch.id,
+        importMetadata: { rawLine: row.rawLine },
+      });
+    });
+
+    const saved = await onUpdate(() => db.importSharedExpenses(batch, expenses, settlements));
+    setIsImporting(false);
+    if (saved) setImported({ expenses: expenses.length, settlements: settlements.length });
+  };
+
+  if (imported) {
+    return (
+      <Card className="animate-fade-in-up text-center">
+        <h2 className="text-2xl font-bold text-white">Import Complete</h2>
+        <p className="text-gray-400 mt-2">
+          Added {imported.expenses} expenses and {imported.settlements} payments from "{fileName}". You can undo this from Import History.
+        </p>
+        <Button className="mt-6" onClick={onBack}>Back to Import</Button>
+      </Card>
+    );
+  }
+
+  if (step === 'people') {
+    const allMapped = ledger.people.every(person => personMembers[person]);
+    return (
+      <Card className="animate-fade-in-up">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Who's Who</h2>
+            <p className="text-gray-400 mt-1">Match each person in "{fileName}" to a member of your household.</p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={onBack}>Cancel</Button>
+            <Button onClick={handleContinue} disabled={!allMapped}>Continue</Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {ledger.people.map(person => (
+            <div key={person} className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 p-3 bg-slate-800/50 rounded-lg">
+              <span className="font-semibold text-white">{person}</span>
+              <select
+                value={personMembers[person]}
+                onChange={e => setPersonMembers(prev => ({ ...prev, [person]: e.target.value }))}
+                className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full sm:max-w-[200px]"
+              >
+                <option value="">Choose a member...</option>
+                {household.members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      </Card>
+    );
+  }
+
+  const allSelected = selectedRows.size > 0 && selectedRows.size === rows.filter(row => !isSelfPayment(row)).length;
+  const duplicateCount = rows.filter(row => row.duplicateOf).length;
+  const foreignCount = rows.filter(row => row.isForeignCurrency).length;
+
+  return (
+    <Card className="animate-fade-in-up">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Preview {ledger.format === 'splitwise' ? 'Splitwise' : 'Spreadsheet'} Import</h2>
+          <p className="text-gray-400 mt-1">
+            Found {rows.filter(row => !row.paidTo).length} expenses and {rows.filter(row => row.paidTo).length} payments in "{fileName}".
+          </p>
+          {ledger.skippedRows.length > 0 && (
+            <p className="text-yellow-400 text-sm mt-1">Rows {ledger.skippedRows.join(', ')} couldn't be read and were left out.</p>
+          )}
+          {previousImport && (
+            <p className="text-yellow-400 text-sm mt-1">This file was already imported on {new Date(previousImport.importedAt).toLocaleDateString('en-CA')}. You can undo that import from Import History.</p>
+          )}
+          {duplicateCount > 0 && (
+            <p className="text-yellow-400 text-sm mt-1">{duplicateCount} expenses look like ones you've already recorded and have been unselected.</p>
+          )}
+          {foreignCount > 0 && (
+            <p className="text-yellow-400 text-sm mt-1">{foreignCount} rows are in another currency and have been unselected; amounts are imported as they are, without conversion.</p>
+          )}
+        </div>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={() => setStep('people')}>Back</Button>
+          <Button onClick={handleImport} disabled={isImporting || selectedRows.size === 0}>
+            {isImporting ? 'Importing...' : `Import ${selectedRows.size} Selected`}
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm responsive-table">
+          <thead className="text-xs text-gray-400 uppercase bg-slate-700/50">
+            <tr>
+              <th className="p-3 w-10">
+                <input type="checkbox" checked={allSelected} onChange={handleSelectAll} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+              </th>
+              <th className="p-3">Date</th>
+              <th className="p-3">Description</th>
+              <th className="p-3 text-right">Amount</th>
+              <th className="p-3">Category</th>
+              <th className="p-3">Paid By</th>
+              <th className="p-3">Shared With</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className={`border-b border-slate-700 ${selectedRows.has(index) ? 'bg-slate-700/50' : 'hover:bg-slate-800/50'}`}>
+                <td className="p-3 checkbox-cell">
+                  <input type="checkbox" checked={selectedRows.has(index)} disabled={isSelfPayment(row)} onChange={() => handleSelectionChange(index)} className="rounded bg-slate-600 border-slate-500 focus:ring-indigo-500" />
+                </td>
+                <td data-label="Date" className="p-3 whitespace-nowrap">{new Date(row.date).toLocaleDateString('en-CA')}</td>
+                <td data-label="Description" className="p-3 text-gray-200" title={row.rawLine}>
+                  {row.description}
+                  {row.isForeignCurrency && <span className="ml-2 text-xs font-bold text-yellow-400 p-1 bg-yellow-500/10 rounded">{row.currency}</span>}
+                  {isSelfPayment(row) && <span className="ml-2 text-xs font-bold text-gray-400 p-1 bg-slate-500/10 rounded" title="Both sides of this payment are the same member, so there's nothing to record.">SAME MEMBER</span>}
+                  {row.duplicateOf && (
+                    <>
+                      <span className="ml-2 text-xs font-bold text-yellow-400 p-1 bg-yellow-500/10 rounded">POSSIBLE DUPLICATE</span>
+                      <p className="text-xs text-gray-400 mt-1">
+                        Matches "{row.duplicateOf.description}" on {new Date(row.duplicateOf.date).toLocaleDateString('en-CA')}, paid by {getMemberName(row.duplicateOf.memberId)}
+                      </p>
+                    </>
+                  )}
+                </td>
+                <td data-label="Amount" className="p-3 text-right font-mono text-pink-400">{formatCurrency(row.amount)}</td>
+                <td data-label="Category" className="p-3">
+                  {row.paidTo ? (
+                    <span className="text-gray-400">Payment</span>
+                  ) : (
+                    <select
+                      value={row.categoryId}
+                      onChange={e => handleCategoryChange(index, e.target.value)}
+                      className="bg-slate-700 border-slate-600 rounded-md text-sm p-1.5 w-full md:max-w-[150px]"
+                    >
+                      {sortCategoriesHierarchically(getSelectableCategories(household.categories, row.categoryId)).map(c => <option key={c.id} value={c.id}>{'\u00A0\u00A0'.repeat(c.depth)}{c.icon} {c.name}</option>)}
+                    </select>
+                  )}
+                </td>
+                <td data-label="Paid By" className="p-3 whitespace-nowrap">{getMemberName(personMembers[row.paidBy])}</td>
+                <td data-label="Shared With" className="p-3 text-gray-400">
+                  {row.paidTo
+                    ? `Paid back ${getMemberName(personMembers[row.paidTo])}`
+                    : toSplits(row.shares, personMembers).map(s => `${getMemberName(s.memberId)} ${formatCurrency(s.amount)}`).join(' · ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+export default SharedExpenseImport;
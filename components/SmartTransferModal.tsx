@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Household, BucketGoal } from '../types';
 import { generateTransferSuggestion } from '../services/geminiService';
+import { getAiErrorMessage } from '../services/ai';
 import Modal from './common/Modal';
 import Button from './common/Button';
 import SkeletonLoader from './common/SkeletonLoader';
 import { SparklesIcon } from './icons/Icons';
+import * as db from '../services/db';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -16,7 +18,7 @@ interface SmartTransferModalProps {
   onClose: () => void;
   goal: BucketGoal;
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const SuggestionSkeleton: React.FC = () => (
@@ -43,13 +45,11 @@ const SmartTransferModal: React.FC<SmartTransferModalProps> = ({ isOpen, onClose
         setIsLoading(true);
         setError(null);
         try {
-           // Simulate longer generation time
-          await new Promise(resolve => setTimeout(resolve, 1500));
           const result = await generateTransferSuggestion(household, goal);
           setSuggestion(result);
           setTransferAmount(result.amount);
         } catch (err) {
-          setError('Failed to get AI suggestion. Please try again.');
+          setError(getAiErrorMessage(err, 'Failed to get AI suggestion. Please try again.'));
           console.error(err);
         } finally {
           setIsLoading(false);
@@ -62,13 +62,9 @@ const SmartTransferModal: React.FC<SmartTransferModalProps> = ({ isOpen, onClose
   const handleConfirmTransfer = () => {
     if (transferAmount === null || transferAmount <= 0) return;
     
-    const updatedGoals = household.bucketGoals.map(g => 
-        g.id === goal.id 
-          ? { ...g, currentAmount: g.currentAmount + transferAmount * 100 }
-          : g
-      );
+    const updatedGoal = { ...goal, currentAmount: goal.currentAmount + Math.round(transferAmount * 100) };
     
-    onUpdate({ bucketGoals: updatedGoals });
+    onUpdate(() => db.upsertGoal(updatedGoal));
     onClose();
   };
 
@@ -1,10 +1,14 @@
 import React, { useState, useCallback } from 'react';
-import { Household, Subscription } from '../types';
-import { detectRecurringPayments, SuggestedSubscription } from '../services/geminiService';
+import { Household, Subscription, SuggestedSubscription } from '../types';
+import { detectRecurringPayments } from '../services/geminiService';
+import { getAiErrorMessage, withLocalFallback } from '../services/ai';
+import { detectRecurringPaymentsLocally } from '../utils/recurringDetection';
 import Card from './common/Card';
 import Button from './common/Button';
 import { SparklesIcon, TrashIcon } from './icons/Icons';
 import SkeletonLoader from './common/SkeletonLoader';
+import FallbackNotice from './common/FallbackNotice';
+import * as db from '../services/db';
 
 const formatCurrency = (amountInCents: number): string => {
   const amount = amountInCents / 100;
@@ -13,13 +17,14 @@ const formatCurrency = (amountInCents: number): string => {
 
 interface SubscriptionsProps {
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) => {
     const [isScanning, setIsScanning] = useState(false);
     const [suggestions, setSuggestions] = useState<SuggestedSubscription[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [fallbackReason, setFallbackReason] = useState<string | null>(null);
     
     const getCategory = (id: string) => household.categories.find(c => c.id === id);
 
@@ -27,11 +32,16 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
         setIsScanning(true);
         setError(null);
         setSuggestions([]);
+        setFallbackReason(null);
         try {
-            const results = await detectRecurringPayments(household);
-            setSuggestions(results);
+            const results = await withLocalFallback(
+                () => detectRecurringPayments(household),
+                () => detectRecurringPaymentsLocally(household.expenses, household.subscriptions),
+            );
+            setSuggestions(results.value);
+            setFallbackReason(results.fallbackReason);
         } catch (err) {
-            setError('Failed to scan for subscriptions. Please try again.');
+            setError(getAiErrorMessage(err, 'Failed to scan for subscriptions. Please try again.'));
             console.error(err);
         } finally {
             setIsScanning(false);
@@ -65,7 +75,7 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
             categoryId: suggestion.categoryId,
         };
 
-        onUpdate({ subscriptions: [...household.subscriptions, newSubscription] });
+        onUpdate(() => db.upsertSubscription(newSubscription));
         
         // Remove from suggestions list
         setSuggestions(prev => prev.filter(s => s.description !== suggestion.description));
@@ -77,7 +87,7 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
 
     const handleDeleteSubscription = (id: string) => {
         if (window.confirm("Are you sure you want to delete this subscription?")) {
-            onUpdate({ subscriptions: household.subscriptions.filter(s => s.id !== id) });
+            onUpdate(() => db.deleteSubscription(id));
         }
     };
 
@@ -123,6 +133,7 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ household, onUpdate }) =>
                 <div className="mt-6 space-y-4">
                     {isScanning && <SkeletonLoader className="h-20 w-full" />}
                     {error && <p className="text-red-400">{error}</p>}
+                    {!isScanning && fallbackReason && <FallbackNotice reason={fallbackReason} />}
                     
                     {!isScanning && suggestions.length > 0 && (
                         <h3 className="font-semibold text-white">Suggestions Found:</h3>
@@ -17,7 +17,7 @@ const formatDate = (dateString: string): string => {
 
 interface TripPlannerProps {
   household: Household;
-  onUpdate: (data: Partial<Omit<Household, 'id'>>) => Promise<void>;
+  onUpdate: (update: () => Promise<void>) => Promise<boolean>;
 }
 
 const TripPlanner: React.FC<TripPlannerProps> = ({ household, onUpdate }) => {
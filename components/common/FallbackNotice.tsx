@@ -0,0 +1,15 @@
+import React from 'react';
+
+interface FallbackNoticeProps {
+  reason: string; // from describeAiFailure, e.g. "the AI quota has run out"
+  className?: string;
+}
+
+// Marks a result that was worked out on this device because the AI couldn't be used.
+const FallbackNotice: React.FC<FallbackNoticeProps> = ({ reason, className = '' }) => (
+  <div className={`p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-sm text-amber-200 ${className}`}>
+    <span className="font-semibold">Calculated on this device without AI</span> because {reason}. These results follow simple rules, so they may be less tailored than usual.
+  </div>
+);
+
+export default FallbackNotice;
@@ -1,4 +1,34 @@
-import { Household } from './types';
+import { Household, IncomeSource, AiProviderId, AiFeature } from './types';
+
+export const INCOME_SOURCES: { value: IncomeSource; label: string }[] = [
+  { value: 'salary', label: 'Salary' },
+  { value: 'refund', label: 'Refund' },
+  { value: 'interest', label: 'Interest' },
+  { value: 'cashback', label: 'Cashback' },
+  { value: 'other', label: 'Other' },
+];
+
+export const AI_PROVIDERS: { id: AiProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Sends requests to Google using the API key this app was built with.' },
+  { id: 'openai-compatible', label: 'Local model', description: 'Any server with an OpenAI-compatible API, such as Ollama or LM Studio.' },
+  { id: 'mock', label: 'Offline demo', description: 'Canned sample answers. Nothing leaves this device.' },
+];
+
+// What each AI feature sends, as shown when asking for consent. Names and identifiers are redacted from
+// text first; receipt photos and statement files can't be, so they go as they are.
+export const AI_FEATURES: { feature: AiFeature; label: string; sends: string }[] = [
+  { feature: 'chat', label: 'AI chat assistant', sends: "this month's expenses, income, budgets, goals and subscriptions" },
+  { feature: 'spendingReport', label: 'AI spending report', sends: "this month's expenses with who paid them, and your budgets" },
+  { feature: 'recurringPayments', label: 'Subscription scan', sends: 'your last 200 expenses' },
+  { feature: 'savingsSuggestions', label: 'Savings coach', sends: 'the last 60 days of expenses and your budgets' },
+  { feature: 'budgetSuggestions', label: 'Budget from spending', sends: 'your last 100 expenses and your categories' },
+  { feature: 'incomeBudget', label: 'Budget from income', sends: 'your monthly income and your categories' },
+  { feature: 'transferSuggestion', label: 'Smart transfer', sends: 'the goal, your total budget and what you spent in the last 30 days' },
+  { feature: 'anomalyCheck', label: 'Unusual spending alerts', sends: 'each new expense and up to 20 earlier ones in its category' },
+  { feature: 'receipt', label: 'Receipt scanning', sends: 'the receipt photo as it is, your categories and rules, and your 10 latest expenses' },
+  { feature: 'bankStatement', label: 'Statement reading', sends: 'the statement PDF or image as it is' },
+  { feature: 'categorize', label: 'Import categorization', sends: 'the descriptions of imported transactions, your categories and rules' },
+];
 
 // FIX: Provide initial data for the application to function.
 export const INITIAL_HOUSEHOLD_DATA: Household = {
@@ -62,10 +92,22 @@ export const INITIAL_HOUSEHOLD_DATA: Household = {
       { id: 'sub-1', description: 'Netflix Subscription', amount: 64900, frequency: 'monthly', nextDueDate: new Date(new Date().setDate(new Date().getDate() + 10)).toISOString(), categoryId: 'cat-5' },
       { id: 'sub-2', description: 'Gym Membership', amount: 200000, frequency: 'monthly', nextDueDate: new Date(new Date().setDate(new Date().getDate() + 2)).toISOString(), categoryId: 'cat-7' }
   ],
+  settlements: [],
+  incomes: [],
+  bankProfiles: [],
+  splitTemplates: [
+      { id: 'split-1', name: '50/50 household', mode: 'equal', weights: { 'mem-1': 1, 'mem-2': 1 } },
+  ],
+  importBatches: [],
+  reconciledPeriods: [],
   notifications: [
     { id: 'notif-1', message: 'You are close to your Dining Out budget for this month.', date: new Date(Date.now() - 1 * 86400000).toISOString(), type: 'warning', isRead: false },
     { id: 'notif-2', message: 'Welcome to FinancelyAI! Add your first expense to get started.', date: new Date(Date.now() - 10 * 86400000).toISOString(), type: 'info', isRead: true },
   ],
   emailAlertsEnabled: true,
   monthlyIncome: 8000000, // Corresponds to ₹80,000
+  aiProvider: 'gemini',
+  aiConsent: {},
+  aiBucketAmounts: false,
+  aiDailyCallLimit: 100,
 };
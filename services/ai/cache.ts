@@ -0,0 +1,63 @@
+import * as db from '../db';
+import { AiRequest, AiTask } from './types';
+import { getAiProviderSettings } from './registry';
+
+// How long an answer stays good for the exact same prompt. Reading a file gives the same result for
+// as long as the file is the same; advice can go stale as the month goes on even when the data doesn't.
+const CACHE_TTL_HOURS: Record<AiTask, number> = {
+  receipt: 24 * 30,
+  bankStatement: 24 * 30,
+  categorize: 24 * 7,
+  incomeBudget: 24 * 7,
+  budgetSuggestions: 24,
+  recurringPayments: 24,
+  savingsSuggestions: 24,
+  anomalyCheck: 24,
+  transferSuggestion: 12,
+  spendingReport: 6,
+};
+
+const inFlight = new Map<string, Promise<string>>();
+
+/**
+ * Identifies a request by a SHA-256 hash of everything that shapes the answer: the provider and
+ * model it goes to, the task, prompt, schema and attachments.
+ */
+const getCacheKey = async ({ task, prompt, schema, attachments }: AiRequest): Promise<string> => {
+  const { aiProvider, aiBaseUrl, aiModel } = getAiProviderSettings();
+  const text = JSON.stringify([aiProvider, aiBaseUrl, aiModel, task, prompt, schema, attachments]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Answers from the cache when the same request was answered recently, and otherwise sends it. An
+ * identical request that is already on its way is joined rather than sent a second time.
+ */
+export const withResponseCache = async (request: AiRequest, send: () => Promise<string>): Promise<string> => {
+  const key = await getCacheKey(request);
+  const cached = await db.getCachedAiResponse(key);
+  if (cached !== null) return cached;
+
+  if (!inFlight.has(key)) {
+    const pending = send()
+      .then(response => {
+        const expiresAt = new Date(Date.now() + CACHE_TTL_HOURS[request.task] * 3600000).toISOString();
+        // Failing to cache is no reason to lose the answer.
+        try {
+          db.cacheAiResponse({ key, feature: request.task, response, expiresAt });
+        } catch (err) {
+          console.warn('Could not cache AI response:', err);
+        }
+        return response;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return inFlight.get(key)!;
+};
+
+// For an answer that turned out to be unusable, so that asking again really asks again.
+export const forgetCachedResponse = async (request: AiRequest) => {
+  await db.deleteCachedAiResponse(await getCacheKey(request));
+};
@@ -0,0 +1,66 @@
+import { AiFeature, AiTask } from '../../types';
+import { AI_FEATURES } from '../../constants';
+
+// Thrown when a structured AI response is still unusable after one corrected retry.
+export class AiResponseError extends Error {
+  constructor(readonly task: AiTask, readonly issues: string[]) {
+    super(`AI response for ${task} failed validation: ${issues.join('; ')}`);
+    this.name = 'AiResponseError';
+  }
+}
+
+// Thrown instead of sending anything when the user has said no to a feature (or hasn't been asked yet).
+export class AiConsentError extends Error {
+  constructor(readonly feature: AiFeature) {
+    super(`AI consent not given for ${feature}`);
+    this.name = 'AiConsentError';
+  }
+}
+
+// Thrown by a provider that can't be used at all, e.g. Gemini without an API key. `reason` reads as a clause.
+export class AiUnavailableError extends Error {
+  constructor(readonly reason: string) {
+    super(`AI provider unavailable: ${reason}`);
+    this.name = 'AiUnavailableError';
+  }
+}
+
+// Thrown by providers that talk HTTP themselves when the server answers with an error status.
+export class AiHttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'AiHttpError';
+  }
+}
+
+// The HTTP status of a failed call. The Gemini SDK's ApiError carries one too.
+export const getErrorStatus = (error: unknown): number | null => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : null;
+};
+
+// Thrown instead of calling the provider once today's calls have reached the limit set in Settings.
+export class AiCallLimitError extends Error {
+  constructor(readonly limit: number) {
+    super(`Daily AI call limit of ${limit} reached`);
+    this.name = 'AiCallLimitError';
+  }
+}
+
+// The message to show for a failed AI call, naming what was wrong when it wasn't the network.
+export const getAiErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof AiConsentError) {
+    const label = AI_FEATURES.find(f => f.feature === error.feature)?.label || error.feature;
+    return `${label} hasn't been allowed to use AI. You can change this under AI Privacy in Settings.`;
+  }
+  if (error instanceof AiUnavailableError) {
+    return `AI isn't available because ${error.reason}. You can pick another provider in Settings.`;
+  }
+  if (error instanceof AiCallLimitError) {
+    return `Today's ${error.limit} AI calls have been used. You can raise the limit under AI Usage in Settings.`;
+  }
+  if (!(error instanceof AiResponseError)) return fallback;
+  const shown = error.issues.slice(0, 2).join('; ');
+  const more = error.issues.length > 2 ? ` and ${error.issues.length - 2} more problems` : '';
+  return `The AI's answer didn't check out (${shown}${more}). Please try again.`;
+};
@@ -0,0 +1,35 @@
+import { AI_FEATURES } from '../../constants';
+import { AiCallLimitError, AiConsentError, AiResponseError, AiUnavailableError, getErrorStatus } from './errors';
+
+// A result, with the reason it was worked out on this device when the AI couldn't provide it.
+export interface WithFallback<T> {
+  value: T;
+  fallbackReason: string | null; // null when the AI answered
+}
+
+// Why an AI call failed, as a clause that follows "because".
+export const describeAiFailure = (error: unknown): string => {
+  if (error instanceof AiUnavailableError) return error.reason;
+  if (error instanceof AiConsentError) {
+    const label = AI_FEATURES.find(f => f.feature === error.feature)?.label || error.feature;
+    return `${label} isn't allowed to use AI`;
+  }
+  if (error instanceof AiCallLimitError) return `today's limit of ${error.limit} AI calls has been used`;
+  if (error instanceof AiResponseError) return "the AI's answer didn't check out";
+  const message = error instanceof Error ? error.message : String(error);
+  if (getErrorStatus(error) === 429 || /\b429\b|quota|RESOURCE_EXHAUSTED/i.test(message)) return 'the AI quota has run out';
+  return "the AI service couldn't be reached";
+};
+
+/**
+ * Asks the AI, and computes the answer locally instead if that fails for any reason, so that a
+ * missing key, an exhausted quota or a refused consent still leaves the feature usable.
+ */
+export const withLocalFallback = async <T>(ask: () => Promise<T>, computeLocally: () => T): Promise<WithFallback<T>> => {
+  try {
+    return { value: await ask(), fallbackReason: null };
+  } catch (error) {
+    console.warn('AI request failed, using the local fallback:', error);
+    return { value: computeLocally(), fallbackReason: describeAiFailure(error) };
+  }
+};
@@ -0,0 +1,50 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AiProvider, JsonSchema } from './types';
+import { AiUnavailableError } from './errors';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  required: schema.required,
+});
+
+export const createGeminiProvider = (model: string = DEFAULT_GEMINI_MODEL): AiProvider => {
+  // Created on first use so that picking another provider never needs an API key.
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!process.env.API_KEY) throw new AiUnavailableError('no Gemini API key is set');
+    return client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  };
+
+  return {
+    id: 'gemini',
+
+    generate: async ({ prompt, attachments, schema }) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: attachments?.length
+          ? { parts: [...attachments.map(a => ({ inlineData: a })), { text: prompt }] }
+          : prompt,
+        config: schema ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) } : undefined,
+      });
+      return response.text ?? '';
+    },
+
+    startChat: (systemInstruction) => {
+      const chat = getClient().chats.create({ model, config: { systemInstruction } });
+      return {
+        async *sendMessageStream(message) {
+          for await (const chunk of await chat.sendMessageStream({ message })) {
+            yield chunk.text ?? '';
+          }
+        },
+      };
+    },
+  };
+};
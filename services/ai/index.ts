@@ -0,0 +1,10 @@
+export * from './types';
+export * from './errors';
+export * from './validation';
+export * from './registry';
+export * from './privacy';
+export * from './fallback';
+export { forgetCachedResponse } from './cache';
+export { configureAiCallLimit, getAiUsageDay } from './throttle';
+export { DEFAULT_GEMINI_MODEL } from './geminiProvider';
+export { DEFAULT_OPENAI_COMPATIBLE_BASE_URL, DEFAULT_OPENAI_COMPATIBLE_MODEL } from './openAiCompatibleProvider';
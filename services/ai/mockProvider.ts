@@ -0,0 +1,96 @@
+import { AiProvider, AiTask } from './types';
+
+type CategoryRef = { id: string; name: string };
+
+const findCategory = (categories: CategoryRef[], name: string): CategoryRef | undefined =>
+  categories.find(c => c.name.toLowerCase() === name.toLowerCase());
+
+const MOCK_SPENDING_REPORT = `*This is a sample report from the offline demo provider. Choose Gemini or a local model in Settings for a report on your own spending.*
+
+| Category | Budget | Spent | Difference |
+|---|---|---|---|
+| Groceries | ₹15,000 | ₹12,480 | ₹2,520 |
+| Dining Out | ₹5,000 | ₹6,150 | -₹1,150 |
+| Transport | ₹4,000 | ₹3,200 | ₹800 |
+
+### Key Insights
+- Groceries came in comfortably under budget.
+- Dining Out went over budget by about a fifth.
+
+### Actionable Suggestions
+- Plan two home-cooked dinners a week to bring Dining Out back on track.
+- Move the Groceries savings into a goal before the month ends.`;
+
+/**
+ * Canned answers for every task. Anything that has to line up with the user's data (category ids,
+ * one category per transaction) is worked out from the request's input; everything else is fixed.
+ */
+const MOCK_FIXTURES: Record<AiTask, (input: Record<string, unknown>) => unknown> = {
+  receipt: () => ({ description: 'Groceries from Reliance Mart', amount: 450.75, categoryName: 'Groceries' }),
+  spendingReport: () => MOCK_SPENDING_REPORT,
+  transferSuggestion: () => ({ amount: 1850.5, reasoning: 'You have spent less than your budget over the last 30 days, so this should be comfortable.' }),
+  budgetSuggestions: (input) => (input.categories as CategoryRef[]).map(c => ({
+    categoryId: c.id,
+    amount: 5000,
+    reasoning: `A starting point for ${c.name} until there is more history to go on.`,
+  })),
+  incomeBudget: (input) => {
+    const categories = input.categories as CategoryRef[];
+    // Eighty percent of income spread evenly, leaving the rest for savings.
+    const amount = Math.floor((input.monthlyIncome as number) * 0.8 / Math.max(categories.length, 1) / 100) * 100;
+    return categories.map(c => ({ categoryId: c.id, amount, reasoning: `An even share of 80% of your income for ${c.name}.` }));
+  },
+  anomalyCheck: () => ({ isAnomalous: false, reasoning: '' }),
+  bankStatement: () => ({
+    openingBalance: 25000,
+    closingBalance: 21610.5,
+    periodStart: '2024-09-01',
+    periodEnd: '2024-09-30',
+    accountNumber: 'XXXX1234',
+    transactions: [
+      { date: '2024-09-02', description: 'BigBasket order', amount: 2349.5, type: 'debit' },
+      { date: '2024-09-05', description: 'Netflix subscription', amount: 649, type: 'debit' },
+      { date: '2024-09-15', description: 'Refund from Amazon', amount: 1299, type: 'credit' },
+      { date: '2024-09-21', description: 'Uber ride', amount: 1690, type: 'debit' },
+    ],
+  }),
+  categorize: (input) => {
+    const categories = input.categories as CategoryRef[];
+    const fallback = findCategory(categories, 'other') || categories[0];
+    // A category is picked when its name appears in the description.
+    return (input.descriptions as string[]).map(description =>
+      (categories.find(c => description.toLowerCase().includes(c.name.toLowerCase())) || fallback)?.id);
+  },
+  recurringPayments: (input) => {
+    const category = findCategory(input.categories as CategoryRef[], 'Entertainment');
+    return category ? [{ description: 'Netflix Subscription', amount: 649, frequency: 'monthly', categoryId: category.id, lastPaymentDate: '2024-09-05' }] : [];
+  },
+  savingsSuggestions: () => [
+    { categoryName: 'Dining Out', reasoning: 'This is your largest non-essential category.', suggestion: 'Replace two restaurant meals a week with home-cooked ones.', potentialSavings: 2000 },
+    { categoryName: 'Shopping', reasoning: 'Several small purchases add up over the month.', suggestion: 'Wait a day before buying anything over ₹1,000.', potentialSavings: 1500 },
+    { categoryName: 'Entertainment', reasoning: 'You pay for more than one streaming service.', suggestion: 'Keep one streaming plan and rotate the others.', potentialSavings: 500 },
+  ],
+};
+
+const MOCK_CHAT_GREETING = "Hi! I'm FinancelyAI running in offline demo mode. I can't read your data in this mode, so choose Gemini or a local model in Settings to ask about your spending.";
+const MOCK_CHAT_REPLY = "I'm the offline demo provider, so I can only give this canned answer. Switch to Gemini or a local model in Settings to get real answers about your finances.";
+
+// Deterministic and offline: the same request always gets the same answer, and nothing leaves the device.
+export const createMockProvider = (): AiProvider => ({
+  id: 'mock',
+
+  generate: async ({ task, schema, input = {} }) => {
+    const fixture = MOCK_FIXTURES[task](input);
+    return schema ? JSON.stringify(fixture) : String(fixture);
+  },
+
+  startChat: () => {
+    let isFirstMessage = true;
+    return {
+      async *sendMessageStream() {
+        yield isFirstMessage ? MOCK_CHAT_GREETING : MOCK_CHAT_REPLY;
+        isFirstMessage = false;
+      },
+    };
+  },
+});
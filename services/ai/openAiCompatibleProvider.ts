@@ -0,0 +1,94 @@
+import { AiAttachment, AiProvider } from './types';
+import { AiHttpError, AiUnavailableError } from './errors';
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = 'llama3.2-vision';
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string | Array<Record<string, unknown>> };
+
+// Most local servers only accept images in chat messages, so PDFs can't be sent this way.
+const toContent = (prompt: string, attachments: AiAttachment[] = []): ChatMessage['content'] => {
+  if (attachments.length === 0) return prompt;
+  const unsupported = attachments.find(a => !a.mimeType.startsWith('image/'));
+  if (unsupported) throw new AiUnavailableError(`the local model can't read ${unsupported.mimeType} files; upload an image or switch to Gemini`);
+  return [
+    ...attachments.map(a => ({ type: 'image_url', image_url: { url: `data:${a.mimeType};base64,${a.data}` } })),
+    { type: 'text', text: prompt },
+  ];
+};
+
+// Reads the server-sent events of a streamed completion, yielding each piece of text.
+async function* readCompletionStream(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data) continue;
+      if (data === '[DONE]') return;
+      // Some servers interleave keep-alive or status lines that aren't JSON; those carry no text.
+      let chunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as Ollama, LM Studio,
+ * llama.cpp or vLLM running on this machine. Structured replies use `response_format: json_schema`.
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string = DEFAULT_OPENAI_COMPATIBLE_BASE_URL, model: string = DEFAULT_OPENAI_COMPATIBLE_MODEL): AiProvider => {
+  const complete = async (body: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, ...body }),
+    });
+    if (!response.ok) {
+      throw new AiHttpError(response.status, `AI endpoint ${baseUrl} returned ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+
+    generate: async ({ task, prompt, attachments, schema }) => {
+      const response = await complete({
+        messages: [{ role: 'user', content: toContent(prompt, attachments) }],
+        response_format: schema ? { type: 'json_schema', json_schema: { name: task, schema } } : undefined,
+      });
+      const completion = await response.json();
+      return completion.choices?.[0]?.message?.content ?? '';
+    },
+
+    startChat: (systemInstruction) => {
+      const history: ChatMessage[] = [{ role: 'system', content: systemInstruction }];
+      return {
+        async *sendMessageStream(message) {
+          const messages: ChatMessage[] = [...history, { role: 'user', content: message }];
+          const response = await complete({ messages, stream: true });
+          let reply = '';
+          for await (const text of readCompletionStream(response)) {
+            reply += text;
+            yield text;
+          }
+          // Only a finished exchange joins the history, so a failed message can simply be sent again.
+          history.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import { AiFeature } from '../../types';
+import * as db from '../db';
+import { AiChatSession, AiRequest } from './types';
+import { AiConsentError } from './errors';
+import { getAiProvider } from './registry';
+import { withResponseCache } from './cache';
+import { callWithRetry, countAiCall } from './throttle';
+
+type ConsentPrompt = (feature: AiFeature) => Promise<boolean>;
+
+let consent: Partial<Record<AiFeature, boolean>> = {};
+let consentPrompt: ConsentPrompt | null = null;
+const pendingPrompts = new Map<AiFeature, Promise<boolean>>();
+
+// Called with the household's saved answers whenever household data loads.
+export const configureAiConsent = (saved: Partial<Record<AiFeature, boolean>>) => {
+  consent = { ...saved };
+};
+
+// Lets the app ask the user the first time a feature is used. Without a prompt, unasked features are refused.
+export const setAiConsentPrompt = (prompt: ConsentPrompt | null) => {
+  consentPrompt = prompt;
+};
+
+const ensureConsent = async (feature: AiFeature) => {
+  if (consent[feature] === undefined && consentPrompt) {
+    // Files imported side by side would otherwise each ask the same question.
+    if (!pendingPrompts.has(feature)) {
+      pendingPrompts.set(feature, consentPrompt(feature).finally(() => pendingPrompts.delete(feature)));
+    }
+    consent[feature] = await pendingPrompts.get(feature);
+  }
+  if (!consent[feature]) throw new AiConsentError(feature);
+};
+
+// Attachments are logged by type and size; the file itself is what the user chose to upload.
+const describeRequest = ({ prompt, attachments = [] }: AiRequest) => [
+  ...attachments.map(a => `[Attached ${a.mimeType}, ${Math.round(a.data.length * 0.75 / 1024)} KB]`),
+  prompt,
+].join('\n\n');
+
+// Saving isn't what the request is for, so a failure to save doesn't fail it.
+const saveAiActivity = () => db.saveAiActivity().catch(err => console.warn('Could not save AI activity:', err));
+
+const logPayload = (feature: AiFeature, payload: string) => db.logAiPayload({
+  id: crypto.randomUUID(),
+  feature,
+  provider: getAiProvider().id,
+  sentAt: new Date().toISOString(),
+  payload,
+});
+
+/**
+ * The only way requests reach a provider. Nothing is sent for a feature the user hasn't agreed to,
+ * and everything that is sent is logged first. Recent answers come from the cache without sending
+ * anything. The offline mock sends nothing, so it needs none of this.
+ */
+export const sendAiRequest = async (request: AiRequest): Promise<string> => {
+  const provider = getAiProvider();
+  if (provider.id === 'mock') return provider.generate(request);
+  await ensureConsent(request.task);
+  // Logged per attempt, since a retry sends the payload again.
+  try {
+    return await withResponseCache(request, () => callWithRetry(async () => {
+      logPayload(request.task, describeRequest(request));
+      return provider.generate(request);
+    }));
+  } finally {
+    await saveAiActivity();
+  }
+};
+
+// A chat whose messages go through the same consent check, log and daily limit, but aren't cached or
+// retried, since a reply may already be half shown. The first log entry includes the context.
+export const startAiChatSession = (systemInstruction: string): AiChatSession => {
+  const provider = getAiProvider();
+  const session = provider.startChat(systemInstruction);
+  let hasSentContext = false;
+  return {
+    async *sendMessageStream(message) {
+      if (provider.id !== 'mock') {
+        await ensureConsent('chat');
+        countAiCall();
+        logPayload('chat', hasSentContext ? message : `${systemInstruction}\n\n${message}`);
+        hasSentContext = true;
+        await saveAiActivity();
+      }
+      yield* session.sendMessageStream(message);
+    },
+  };
+};
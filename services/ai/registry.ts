@@ -0,0 +1,31 @@
+import { AiProvider, AiProviderSettings } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+const createProvider = ({ aiProvider, aiBaseUrl, aiModel }: AiProviderSettings): AiProvider => {
+  switch (aiProvider) {
+    case 'mock': return createMockProvider();
+    case 'openai-compatible': return createOpenAiCompatibleProvider(aiBaseUrl || undefined, aiModel || undefined);
+    default: return createGeminiProvider(aiModel || undefined);
+  }
+};
+
+let currentSettings: AiProviderSettings = { aiProvider: 'gemini' };
+let currentProvider: AiProvider | null = null;
+
+/**
+ * Points the AI features at the provider chosen in Settings. Called whenever household data loads,
+ * so the provider is only rebuilt when the settings actually change.
+ */
+export const configureAiProvider = (settings: AiProviderSettings) => {
+  if (settings.aiProvider === currentSettings.aiProvider
+    && settings.aiBaseUrl === currentSettings.aiBaseUrl
+    && settings.aiModel === currentSettings.aiModel) return;
+  currentSettings = { aiProvider: settings.aiProvider, aiBaseUrl: settings.aiBaseUrl, aiModel: settings.aiModel };
+  currentProvider = null;
+};
+
+export const getAiProvider = (): AiProvider => currentProvider ??= createProvider(currentSettings);
+
+export const getAiProviderSettings = (): AiProviderSettings => currentSettings;
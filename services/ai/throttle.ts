@@ -0,0 +1,45 @@
+import * as db from '../db';
+import { AiCallLimitError, getErrorStatus } from './errors';
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+
+let dailyCallLimit = 0;
+
+// Called with the household's setting whenever household data loads. 0 means no limit.
+export const configureAiCallLimit = (limit: number) => {
+  dailyCallLimit = limit;
+};
+
+// The local date as YYYY-MM-DD, so the count starts again at the user's midnight.
+export const getAiUsageDay = (date: Date = new Date()): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+
+// Rate limiting and server errors may pass; anything else would fail the same way again.
+const isRetryable = (error: unknown) => {
+  const status = getErrorStatus(error);
+  return status === 429 || (status !== null && status >= 500);
+};
+
+// Counts a call against today's limit, refusing it once the limit has been reached.
+export const countAiCall = () => {
+  if (!db.tryRecordAiCall(getAiUsageDay(), dailyCallLimit)) throw new AiCallLimitError(dailyCallLimit);
+};
+
+/**
+ * Makes one provider call, counted against the daily limit. A 429 or 5xx answer is retried up to
+ * three times after waiting 1, 2 and 4 seconds (plus some jitter); every attempt counts as a call.
+ */
+export const callWithRetry = async <T>(call: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    countAiCall();
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryable(error)) throw error;
+      const delay = BASE_RETRY_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+      console.warn(`AI call failed with status ${getErrorStatus(error)}, retrying in ${Math.round(delay)} ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
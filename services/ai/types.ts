@@ -0,0 +1,44 @@
+import { AiProviderId, AiTask } from '../../types';
+
+export type { AiTask };
+
+// The subset of JSON Schema that every provider understands. Gemini takes the same shape with upper-case types.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+// An image or PDF sent alongside the prompt.
+export interface AiAttachment {
+  mimeType: string;
+  data: string; // base64, without the "data:...;base64," prefix
+}
+
+export interface AiRequest {
+  task: AiTask;
+  prompt: string;
+  attachments?: AiAttachment[];
+  schema?: JsonSchema; // when set, the reply is JSON matching it
+  input?: Record<string, unknown>; // what the prompt was written from; the mock answers from this instead of the prompt
+}
+
+export interface AiChatSession {
+  // Yields the reply as it arrives; the session keeps the conversation history.
+  sendMessageStream(message: string): AsyncGenerator<string>;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  // Returns the model's text, which is JSON when the request has a schema.
+  generate(request: AiRequest): Promise<string>;
+  startChat(systemInstruction: string): AiChatSession;
+}
+
+export interface AiProviderSettings {
+  aiProvider: AiProviderId;
+  aiBaseUrl?: string;
+  aiModel?: string;
+}
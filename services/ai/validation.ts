@@ -0,0 +1,58 @@
+import { parseStatementAmount, parseStatementDate } from '../../utils/csvImport';
+
+// What a validator made of a response: the usable part (null if nothing was) and what was wrong with the rest.
+export interface Validated<T> {
+  value: T | null;
+  issues: string[];
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A trimmed, non-empty string, or null.
+export const readString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Numbers, and numeric strings such as "₹1,250.50" that models sometimes return instead.
+export const readNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  return typeof value === 'string' ? parseStatementAmount(value) : null;
+};
+
+export const readBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return null;
+};
+
+// "YYYY-MM-DD", also accepting the day-first dates Indian statements print. Impossible dates are null.
+export const readDate = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  return parseStatementDate(value, 'YMD') || parseStatementDate(value, 'DMY');
+};
+
+// A category id from the list, also accepting the category's name in its place.
+export const readCategoryId = (value: unknown, categories: { id: string; name: string }[]): string | null => {
+  const text = readString(value);
+  if (!text) return null;
+  return (categories.find(c => c.id === text) || categories.find(c => c.name.toLowerCase() === text.toLowerCase()))?.id ?? null;
+};
+
+/**
+ * Validates each item of an array response, keeping the valid ones. Issues name the item by its
+ * position so the model can find it when they are sent back. If every item was invalid, nothing is usable.
+ */
+export const validateItems = <T>(
+  value: unknown,
+  validateItem: (item: unknown) => { value: T | null; issues: string[] },
+): Validated<T[]> => {
+  if (!Array.isArray(value)) return { value: null, issues: ['Expected a JSON array.'] };
+  const items: T[] = [];
+  const issues: string[] = [];
+  value.forEach((item, index) => {
+    const result = validateItem(item);
+    if (result.value !== null) items.push(result.value);
+    issues.push(...result.issues.map(issue => `Item ${index + 1}: ${issue}`));
+  });
+  return { value: items.length > 0 || value.length === 0 ? items : null, issues };
+};
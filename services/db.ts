@@ -1,4 +1,4 @@
-import { Household, Expense, Notification, Rule, Budget, BucketGoal, Trip, Subscription, Member } from '../types';
+import { Household, Expense, Notification, Rule, Budget, BucketGoal, Trip, Subscription, Member, Category, Settlement, Split, Income, BankProfile, ImportBatch, ImportMetadata, ReconciledPeriod, SplitTemplate, StatementImport, AiFeature, AiPayloadLogEntry } from '../types';
 import { INITIAL_HOUSEHOLD_DATA } from '../constants';
 import * as auth from './authService';
 
@@ -48,6 +48,16 @@ const loadDbFromIndexedDB = async (): Promise<Uint8Array | null> => {
 };
 
 // --- DB Initialization and Schema ---
+// The baseline schema. Every later change goes into MIGRATIONS below so that
+// existing installs are upgraded in place instead of only fresh signups.
+const BASELINE_SCHEMA_VERSION = 1;
+
+const createSchemaVersionTable = () => {
+    db.exec("CREATE TABLE schema_version (version INTEGER PRIMARY KEY, description TEXT, appliedAt TEXT);");
+    db.prepare("INSERT INTO schema_version VALUES (?, ?, ?)")
+      .run([BASELINE_SCHEMA_VERSION, 'Baseline schema', new Date().toISOString()]);
+};
+
 const createSchema = () => {
     const schema = `
         CREATE TABLE household_settings (id TEXT PRIMARY KEY, name TEXT, emailAlertsEnabled INTEGER, monthlyIncome INTEGER);
@@ -63,6 +73,230 @@ const createSchema = () => {
         CREATE TABLE notifications (id TEXT PRIMARY KEY, message TEXT, date TEXT, type TEXT, isRead INTEGER);
     `;
     db.exec(schema);
+    createSchemaVersionTable();
+};
+
+// --- Schema Migrations ---
+interface Migration {
+    version: number;
+    description: string;
+    sql: string | (() => string); // a function when the SQL depends on the running sql.js build
+}
+
+// Ordered list of schema changes. Never edit a migration once it has shipped;
+// append a new one with the next version number instead.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: 'Add notes to expenses',
+        sql: `ALTER TABLE expenses ADD COLUMN notes TEXT;`,
+    },
+    {
+        version: 3,
+        description: 'Remove splits orphaned by earlier expense deletes',
+        sql: `DELETE FROM expense_splits WHERE expenseId NOT IN (SELECT id FROM expenses);`,
+    },
+    {
+        version: 4,
+        description: 'Add archiving to categories',
+        sql: `ALTER TABLE categories ADD COLUMN isArchived INTEGER NOT NULL DEFAULT 0;`,
+    },
+    {
+        version: 5,
+        description: 'Add parent categories for sub-categories',
+        sql: `ALTER TABLE categories ADD COLUMN parentId TEXT REFERENCES categories(id);`,
+    },
+    {
+        version: 6,
+        description: 'Add full-text search index over expense descriptions and notes',
+        sql: () => {
+            const module = detectFtsModule();
+            // Without FTS, searchExpenseIds falls back to LIKE over the expenses table.
+            if (!module) return '';
+            return `
+                CREATE VIRTUAL TABLE expenses_fts USING ${module}(description, notes);
+                INSERT INTO expenses_fts (rowid, description, notes) SELECT rowid, description, notes FROM expenses;
+                CREATE TRIGGER expenses_fts_insert AFTER INSERT ON expenses BEGIN
+                    INSERT INTO expenses_fts (rowid, description, notes) VALUES (new.rowid, new.description, new.notes);
+                END;
+                CREATE TRIGGER expenses_fts_update AFTER UPDATE OF description, notes ON expenses BEGIN
+                    DELETE FROM expenses_fts WHERE rowid = old.rowid;
+                    INSERT INTO expenses_fts (rowid, description, notes) VALUES (new.rowid, new.description, new.notes);
+                END;
+                CREATE TRIGGER expenses_fts_delete AFTER DELETE ON expenses BEGIN
+                    DELETE FROM expenses_fts WHERE rowid = old.rowid;
+                END;
+            `;
+        },
+    },
+    {
+        version: 7,
+        description: 'Add settlements between members',
+        sql: `CREATE TABLE settlements (id TEXT PRIMARY KEY, fromMemberId TEXT, toMemberId TEXT, amount INTEGER, date TEXT, note TEXT, FOREIGN KEY(fromMemberId) REFERENCES members(id), FOREIGN KEY(toMemberId) REFERENCES members(id));`,
+    },
+    {
+        version: 8,
+        description: 'Store how expenses were split',
+        sql: `
+            ALTER TABLE expenses ADD COLUMN splitMode TEXT;
+            ALTER TABLE expense_splits ADD COLUMN share REAL;
+        `,
+    },
+    {
+        version: 9,
+        description: 'Add income records',
+        sql: `CREATE TABLE incomes (id TEXT PRIMARY KEY, description TEXT, amount INTEGER, date TEXT, memberId TEXT, source TEXT, notes TEXT, FOREIGN KEY(memberId) REFERENCES members(id));`,
+    },
+    {
+        version: 10,
+        description: 'Add saved bank profiles for CSV imports',
+        sql: `CREATE TABLE bank_profiles (id TEXT PRIMARY KEY, name TEXT, headerSignature TEXT, mapping TEXT);`,
+    },
+    {
+        version: 11,
+        description: 'Keep bank transaction ids on imported expenses and income',
+        sql: `
+            ALTER TABLE expenses ADD COLUMN externalId TEXT;
+            ALTER TABLE incomes ADD COLUMN externalId TEXT;
+            CREATE INDEX idx_expenses_externalId ON expenses(externalId);
+            CREATE INDEX idx_incomes_externalId ON incomes(externalId);
+        `,
+    },
+    {
+        version: 12,
+        description: 'Record statement import batches',
+        sql: `
+            CREATE TABLE import_batches (id TEXT PRIMARY KEY, fileName TEXT, fileHash TEXT, importedAt TEXT, rowCount INTEGER, parser TEXT);
+            ALTER TABLE expenses ADD COLUMN importBatchId TEXT;
+            ALTER TABLE incomes ADD COLUMN importBatchId TEXT;
+            CREATE INDEX idx_expenses_importBatchId ON expenses(importBatchId);
+            CREATE INDEX idx_incomes_importBatchId ON incomes(importBatchId);
+        `,
+    },
+    {
+        version: 13,
+        description: 'Keep the original statement details of imported expenses',
+        sql: `CREATE TABLE expense_import_metadata (expenseId TEXT PRIMARY KEY, reference TEXT, balance INTEGER, accountNumber TEXT, rawLine TEXT);`,
+    },
+    {
+        version: 14,
+        description: 'Record reconciled statement periods',
+        sql: `
+            CREATE TABLE reconciled_periods (id TEXT PRIMARY KEY, accountNumber TEXT, periodStart TEXT, periodEnd TEXT, openingBalance INTEGER, closingBalance INTEGER, reconciledAt TEXT, importBatchId TEXT);
+            CREATE INDEX idx_reconciled_periods_account ON reconciled_periods(accountNumber);
+        `,
+    },
+    {
+        version: 15,
+        description: 'Link settlements to the import that created them',
+        sql: `ALTER TABLE settlements ADD COLUMN importBatchId TEXT;`,
+    },
+    {
+        version: 16,
+        description: 'Add split templates and remember who owns each bank account',
+        sql: `
+            CREATE TABLE split_templates (id TEXT PRIMARY KEY, name TEXT, mode TEXT, weights TEXT);
+            ALTER TABLE bank_profiles ADD COLUMN accountMembers TEXT;
+        `,
+    },
+    {
+        version: 17,
+        description: 'Choose which AI provider the assistant features use',
+        sql: `
+            ALTER TABLE household_settings ADD COLUMN aiProvider TEXT NOT NULL DEFAULT 'gemini';
+            ALTER TABLE household_settings ADD COLUMN aiBaseUrl TEXT;
+            ALTER TABLE household_settings ADD COLUMN aiModel TEXT;
+        `,
+    },
+    {
+        version: 18,
+        description: 'Ask before sending household data to an AI provider and log what was sent',
+        sql: `
+            ALTER TABLE household_settings ADD COLUMN aiConsent TEXT;
+            ALTER TABLE household_settings ADD COLUMN aiBucketAmounts INTEGER NOT NULL DEFAULT 0;
+            CREATE TABLE ai_payload_log (id TEXT PRIMARY KEY, feature TEXT, provider TEXT, sentAt TEXT, payload TEXT);
+            CREATE INDEX idx_ai_payload_log_sent_at ON ai_payload_log(sentAt);
+        `,
+    },
+    {
+        version: 19,
+        description: 'Cache AI responses and count AI calls against a daily limit',
+        sql: `
+            ALTER TABLE household_settings ADD COLUMN aiDailyCallLimit INTEGER NOT NULL DEFAULT 100;
+            CREATE TABLE ai_response_cache (key TEXT PRIMARY KEY, feature TEXT NOT NULL, response TEXT NOT NULL, expiresAt TEXT NOT NULL);
+            CREATE TABLE ai_daily_usage (day TEXT PRIMARY KEY, calls INTEGER NOT NULL);
+        `,
+    },
+];
+
+// The CDN build of sql.js ships FTS4 but not FTS5, so probe for the best available module.
+const detectFtsModule = (): 'fts5' | 'fts4' | null => {
+    for (const module of ['fts5', 'fts4'] as const) {
+        try {
+            db.exec(`CREATE VIRTUAL TABLE temp.fts_probe USING ${module}(content); DROP TABLE temp.fts_probe;`);
+            return module;
+        } catch {
+            // Module not compiled into this build; try the next one.
+        }
+    }
+    return null;
+};
+
+const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), BASELINE_SCHEMA_VERSION);
+
+const getSchemaVersion = (): number => {
+    const [table] = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'");
+    if (!table) {
+        // Databases created before versioning existed are at the baseline schema.
+        createSchemaVersionTable();
+        return BASELINE_SCHEMA_VERSION;
+    }
+    const [result] = db.exec("SELECT MAX(version) FROM schema_version");
+    return result?.values[0][0] ?? BASELINE_SCHEMA_VERSION;
+};
+
+const backupDbToIndexedDB = async (dbData: Uint8Array, version: number) => {
+    const idb = await openIDB();
+    const transaction = idb.transaction('files', 'readwrite');
+    const store = transaction.objectStore('files');
+    store.put(dbData, `${DB_NAME}.backup-v${version}`);
+    return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Applies every pending migration in a single transaction.
+ * @param dbData - The DB blob as loaded from IndexedDB, backed up before anything changes. Omit for a fresh DB.
+ * @returns True if any migration was applied.
+ */
+const runMigrations = async (dbData?: Uint8Array): Promise<boolean> => {
+    const currentVersion = getSchemaVersion();
+    const pending = MIGRATIONS
+        .filter(m => m.version > currentVersion)
+        .sort((a, b) => a.version - b.version);
+    if (pending.length === 0) return false;
+
+    if (dbData) {
+        await backupDbToIndexedDB(dbData, currentVersion);
+    }
+
+    db.exec("BEGIN TRANSACTION;");
+    const versionStmt = db.prepare("INSERT INTO schema_version VALUES (?, ?, ?)");
+    try {
+        pending.forEach(m => {
+            db.exec(typeof m.sql === 'function' ? m.sql() : m.sql);
+            versionStmt.run([m.version, m.description, new Date().toISOString()]);
+        });
+        db.exec("COMMIT;");
+    } catch (err) {
+        db.exec("ROLLBACK;");
+        throw new Error(`Migration from schema v${currentVersion} to v${LATEST_SCHEMA_VERSION} failed: ${err}`);
+    } finally {
+        versionStmt.free();
+    }
+    return true;
 };
 
 const getPersonalizedInitialData = (userName: string): Household => {
@@ -83,16 +317,16 @@ const seedData = (userName: string) => {
     try {
         const initialData = getPersonalizedInitialData(userName);
         db.exec("BEGIN TRANSACTION;");
-        const { members, categories, rules, expenses, budgets, bucketGoals, trips, subscriptions, notifications, ...householdBase } = initialData;
+        const { members, categories, rules, expenses, budgets, bucketGoals, trips, subscriptions, settlements, incomes, bankProfiles, splitTemplates, importBatches, reconciledPeriods, notifications, ...householdBase } = initialData;
 
-        db.prepare("INSERT INTO household_settings VALUES (?, ?, ?, ?)")
-          .run([householdBase.id, householdBase.name, householdBase.emailAlertsEnabled ? 1 : 0, householdBase.monthlyIncome]);
+        db.prepare("INSERT INTO household_settings (id, name, emailAlertsEnabled, monthlyIncome, aiProvider, aiBaseUrl, aiModel, aiConsent, aiBucketAmounts, aiDailyCallLimit) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
+          .run([householdBase.id, householdBase.name, householdBase.emailAlertsEnabled ? 1 : 0, householdBase.monthlyIncome, householdBase.aiProvider, householdBase.aiBaseUrl ?? null, householdBase.aiModel ?? null, JSON.stringify(householdBase.aiConsent), householdBase.aiBucketAmounts ? 1 : 0, householdBase.aiDailyCallLimit]);
         
         const memberStmt = db.prepare("INSERT INTO members VALUES (?, ?, ?)");
         members.forEach(m => memberStmt.run([m.id, m.name, m.avatarUrl]));
         memberStmt.free();
 
-        const categoryStmt = db.prepare("INSERT INTO categories VALUES (?, ?, ?)");
+        const categoryStmt = db.prepare("INSERT INTO categories (id, name, icon) VALUES (?, ?, ?)");
         categories.forEach(c => categoryStmt.run([c.id, c.name, c.icon]));
         categoryStmt.free();
 
@@ -100,7 +334,7 @@ const seedData = (userName: string) => {
         rules.forEach(r => ruleStmt.run([r.id, r.keyword, r.categoryId]));
         ruleStmt.free();
         
-        const expStmt = db.prepare("INSERT INTO expenses VALUES (?, ?, ?, ?, ?, ?, ?)");
+        const expStmt = db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId) VALUES (?, ?, ?, ?, ?, ?, ?)");
         const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
         expenses.forEach(e => {
             expStmt.run([e.id, e.description, e.amount, e.date, e.memberId, e.categoryId, null]);
@@ -118,7 +352,7 @@ const seedData = (userName: string) => {
         goalStmt.free();
 
         const tripStmt = db.prepare("INSERT INTO trips VALUES (?, ?, ?, ?, ?)");
-        const tripExpStmt = db.prepare("INSERT INTO expenses VALUES (?, ?, ?, ?, ?, ?, ?)");
+        const tripExpStmt = db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId) VALUES (?, ?, ?, ?, ?, ?, ?)");
         const tripSplitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
         trips.forEach(t => {
             tripStmt.run([t.id, t.name, t.startDate, t.endDate, t.budget]);
@@ -134,6 +368,30 @@ const seedData = (userName: string) => {
         const subStmt = db.prepare("INSERT INTO subscriptions VALUES (?, ?, ?, ?, ?, ?)");
         subscriptions.forEach(s => subStmt.run([s.id, s.description, s.amount, s.frequency, s.nextDueDate, s.categoryId]));
         subStmt.free();
+
+        const settlementStmt = db.prepare("INSERT INTO settlements (id, fromMemberId, toMemberId, amount, date, note, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?)");
+        settlements.forEach(s => settlementStmt.run([s.id, s.fromMemberId, s.toMemberId, s.amount, s.date, s.note ?? null, s.importBatchId ?? null]));
+        settlementStmt.free();
+
+        const incomeStmt = db.prepare("INSERT INTO incomes (id, description, amount, date, memberId, source, notes) VALUES (?, ?, ?, ?, ?, ?, ?)");
+        incomes.forEach(i => incomeStmt.run([i.id, i.description, i.amount, i.date, i.memberId, i.source, i.notes ?? null]));
+        incomeStmt.free();
+
+        const profileStmt = db.prepare("INSERT INTO bank_profiles (id, name, headerSignature, mapping, accountMembers) VALUES (?, ?, ?, ?, ?)");
+        bankProfiles.forEach(p => profileStmt.run([p.id, p.name, p.headerSignature, JSON.stringify(p.mapping), p.accountMembers ? JSON.stringify(p.accountMembers) : null]));
+        profileStmt.free();
+
+        const templateStmt = db.prepare("INSERT INTO split_templates (id, name, mode, weights) VALUES (?, ?, ?, ?)");
+        splitTemplates.forEach(t => templateStmt.run([t.id, t.name, t.mode, JSON.stringify(t.weights)]));
+        templateStmt.free();
+
+        const batchStmt = db.prepare("INSERT INTO import_batches (id, fileName, fileHash, importedAt, rowCount, parser) VALUES (?, ?, ?, ?, ?, ?)");
+        importBatches.forEach(b => batchStmt.run([b.id, b.fileName, b.fileHash, b.importedAt, b.rowCount, b.parser]));
+        batchStmt.free();
+
+        const periodStmt = db.prepare("INSERT INTO reconciled_periods (id, accountNumber, periodStart, periodEnd, openingBalance, closingBalance, reconciledAt, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+        reconciledPeriods.forEach(p => periodStmt.run([p.id, p.accountNumber, p.periodStart, p.periodEnd, p.openingBalance, p.closingBalance, p.reconciledAt, p.importBatchId]));
+        periodStmt.free();
         
         const notifStmt = db.prepare("INSERT INTO notifications VALUES (?, ?, ?, ?, ?)");
         notifications.forEach(n => notifStmt.run([n.id, n.message, n.date, n.type, n.isRead ? 1 : 0]));
@@ -146,6 +404,11 @@ const seedData = (userName: string) => {
     }
 };
 
+/**
+ * Opens the database, migrating or creating it as needed. Throws if that fails, leaving no database
+ * open, so nothing queries a half-migrated schema. A failed migration is rolled back before anything
+ * is saved, so the stored data (and its `.backup-v{N}` copy) stays as it was.
+ */
 export const initDB = async (): Promise<void> => {
     if (db) return;
     try {
@@ -153,12 +416,16 @@ export const initDB = async (): Promise<void> => {
         const dbData = await loadDbFromIndexedDB();
         if (dbData) {
             db = new SQL.Database(dbData);
+            if (await runMigrations(dbData)) {
+                await saveDbToIndexedDB();
+            }
         } else {
             // No DB exists, this must be a new signup.
             const user = auth.getAuthenticatedUser();
             if (user && user.name) {
                 db = new SQL.Database();
                 createSchema();
+                await runMigrations();
                 seedData(user.name);
                 await saveDbToIndexedDB();
             } else {
@@ -168,7 +435,10 @@ export const initDB = async (): Promise<void> => {
             }
         }
     } catch (err) {
+        db?.close();
+        db = null;
         console.error("DB initialization failed:", err);
+        throw err;
     }
 };
 
@@ -182,6 +452,14 @@ const sqlResultToObject = (stmt: any) => {
     return results;
 };
 
+const toSplit = (s: any): Split => ({ memberId: s.memberId, amount: s.amount, share: s.share ?? undefined });
+const toImportMetadata = (m: any): ImportMetadata => ({
+    reference: m.reference ?? undefined,
+    balance: m.balance ?? undefined,
+    accountNumber: m.accountNumber ?? undefined,
+    rawLine: m.rawLine,
+});
+
 export const loadHouseholdData = async (): Promise<Household | null> => {
     if (!db) await initDB();
     if (!db) return null;
@@ -201,23 +479,27 @@ export const loadHouseholdData = async (): Promise<Household | null> => {
         membersStmt.free();
         
         const categoriesStmt = db.prepare("SELECT * FROM categories");
-        const categories = sqlResultToObject(categoriesStmt);
+        const categories = sqlResultToObject(categoriesStmt).map(c => ({...c, isArchived: c.isArchived === 1, parentId: c.parentId ?? undefined}));
         categoriesStmt.free();
 
         const rulesStmt = db.prepare("SELECT * FROM rules");
         const rules = sqlResultToObject(rulesStmt);
         rulesStmt.free();
 
+        const metadataStmt = db.prepare("SELECT * FROM expense_import_metadata");
+        const importMetadata = new Map(sqlResultToObject(metadataStmt).map(m => [m.expenseId, toImportMetadata(m)]));
+        metadataStmt.free();
+
         const expensesStmt = db.prepare("SELECT * FROM expenses WHERE tripId IS NULL ORDER BY date DESC");
         const expensesData = sqlResultToObject(expensesStmt);
         expensesStmt.free();
         
-        const splitStmt = db.prepare("SELECT * FROM expense_splits WHERE expenseId = :id");
+        const splitStmt = db.prepare("SELECT memberId, amount, share FROM expense_splits WHERE expenseId = :id");
         const expenses = expensesData.map((e: any) => {
             splitStmt.bind({ ':id': e.id });
-            const splits = sqlResultToObject(splitStmt);
+            const splits = sqlResultToObject(splitStmt).map(toSplit);
             splitStmt.reset();
-            return { ...e, splits };
+            return { ...e, notes: e.notes ?? undefined, splitMode: e.splitMode ?? undefined, externalId: e.externalId ?? undefined, importBatchId: e.importBatchId ?? undefined, importMetadata: importMetadata.get(e.id), splits };
         });
         splitStmt.free();
 
@@ -234,16 +516,16 @@ export const loadHouseholdData = async (): Promise<Household | null> => {
         tripsStmt.free();
 
         const tripExpStmt = db.prepare("SELECT * FROM expenses WHERE tripId = :id ORDER BY date DESC");
-        const tripSplitStmt = db.prepare("SELECT * FROM expense_splits WHERE expenseId = :id");
+        const tripSplitStmt = db.prepare("SELECT memberId, amount, share FROM expense_splits WHERE expenseId = :id");
         const trips = tripsData.map((t: any) => {
             tripExpStmt.bind({ ':id': t.id });
             const tripExpensesData = sqlResultToObject(tripExpStmt);
             tripExpStmt.reset();
             const tripExpenses = tripExpensesData.map((e: any) => {
                 tripSplitStmt.bind({ ':id': e.id });
-                const splits = sqlResultToObject(tripSplitStmt);
+                const splits = sqlResultToObject(tripSplitStmt).map(toSplit);
                 tripSplitStmt.reset();
-                return { ...e, splits };
+                return { ...e, notes: e.notes ?? undefined, splitMode: e.splitMode ?? undefined, externalId: e.externalId ?? undefined, importBatchId: e.importBatchId ?? undefined, importMetadata: importMetadata.get(e.id), splits };
             });
             return { ...t, expenses: tripExpenses };
         });
@@ -253,6 +535,30 @@ export const loadHouseholdData = async (): Promise<Household | null> => {
         const subsStmt = db.prepare("SELECT * FROM subscriptions ORDER BY nextDueDate ASC");
         const subscriptions = sqlResultToObject(subsStmt);
         subsStmt.free();
+
+        const settlementsStmt = db.prepare("SELECT * FROM settlements ORDER BY date DESC");
+        const settlements = sqlResultToObject(settlementsStmt).map(s => ({...s, note: s.note ?? undefined, importBatchId: s.importBatchId ?? undefined}));
+        settlementsStmt.free();
+
+        const incomesStmt = db.prepare("SELECT * FROM incomes ORDER BY date DESC");
+        const incomes = sqlResultToObject(incomesStmt).map(i => ({...i, notes: i.notes ?? undefined, externalId: i.externalId ?? undefined, importBatchId: i.importBatchId ?? undefined}));
+        incomesStmt.free();
+
+        const profilesStmt = db.prepare("SELECT * FROM bank_profiles ORDER BY name");
+        const bankProfiles = sqlResultToObject(profilesStmt).map(p => ({...p, mapping: JSON.parse(p.mapping), accountMembers: p.accountMembers ? JSON.parse(p.accountMembers) : undefined}));
+        profilesStmt.free();
+
+        const templatesStmt = db.prepare("SELECT * FROM split_templates ORDER BY name");
+        const splitTemplates = sqlResultToObject(templatesStmt).map(t => ({...t, weights: JSON.parse(t.weights)}));
+        templatesStmt.free();
+
+        const batchesStmt = db.prepare("SELECT * FROM import_batches ORDER BY importedAt DESC");
+        const importBatches = sqlResultToObject(batchesStmt);
+        batchesStmt.free();
+
+        const periodsStmt = db.prepare("SELECT * FROM reconciled_periods ORDER BY periodStart");
+        const reconciledPeriods = sqlResultToObject(periodsStmt);
+        periodsStmt.free();
         
         const notifsStmt = db.prepare("SELECT * FROM notifications ORDER BY date DESC");
         const notifications = sqlResultToObject(notifsStmt).map(n => ({...n, isRead: n.isRead === 1}));
@@ -261,14 +567,24 @@ export const loadHouseholdData = async (): Promise<Household | null> => {
         return {
             ...householdBase,
             emailAlertsEnabled: householdBase.emailAlertsEnabled === 1,
+            aiBaseUrl: householdBase.aiBaseUrl ?? undefined,
+            aiModel: householdBase.aiModel ?? undefined,
+            aiConsent: householdBase.aiConsent ? JSON.parse(householdBase.aiConsent) : {},
+            aiBucketAmounts: householdBase.aiBucketAmounts === 1,
             members,
             categories,
             rules,
             expenses,
+            incomes,
             budgets,
             bucketGoals,
             trips,
             subscriptions,
+            settlements,
+            bankProfiles,
+            splitTemplates,
+            importBatches,
+            reconciledPeriods,
             notifications,
         };
     } catch (err) {
@@ -277,101 +593,547 @@ export const loadHouseholdData = async (): Promise<Household | null> => {
     }
 };
 
+/**
+ * Finds expenses (household and trip) whose description or notes contain every term.
+ * Words match as prefixes, e.g. "swig" finds "Swiggy"; multi-word terms match as phrases.
+ * @param terms - Free-text search terms, as produced by parseSearchQuery.
+ * @returns The ids of matching expenses.
+ */
+export const searchExpenseIds = async (terms: string[]): Promise<string[]> => {
+    if (!db) return [];
+    // Keep only letters and digits so user input can never form FTS operators or syntax errors.
+    const cleanTerms = terms
+        .map(t => t.split(/[^\p{L}\p{N}]+/u).filter(Boolean))
+        .filter(words => words.length > 0);
+    if (cleanTerms.length === 0) return [];
+
+    try {
+        const [ftsTable] = db.exec("SELECT name FROM sqlite_master WHERE name = 'expenses_fts'");
+        let stmt;
+        if (ftsTable) {
+            const match = cleanTerms
+                .map(words => words.length === 1 ? `${words[0]}*` : `"${words.join(' ')}"`)
+                .join(' ');
+            stmt = db.prepare("SELECT e.id FROM expenses_fts JOIN expenses e ON e.rowid = expenses_fts.rowid WHERE expenses_fts MATCH ?");
+            stmt.bind([match]);
+        } else {
+            const conditions = cleanTerms.map(() => "(description LIKE ? OR IFNULL(notes, '') LIKE ?)").join(' AND ');
+            const params = cleanTerms.flatMap(words => {
+                const pattern = `%${words.join(' ')}%`;
+                return [pattern, pattern];
+            });
+            stmt = db.prepare(`SELECT id FROM expenses WHERE ${conditions}`);
+            stmt.bind(params);
+        }
+        const ids = sqlResultToObject(stmt).map((row: any) => row.id as string);
+        stmt.free();
+        return ids;
+    } catch (err) {
+        console.error("Failed to search expenses:", err);
+        return [];
+    }
+};
+
 // --- Data Mutation Functions ---
-export const addExpense = async (newExpense: Omit<Expense, 'id'> & { id: string }, notifications: Notification[]) => {
-    if (!db) return;
+// Runs `work` inside a single SQL transaction. Failures are rolled back and rethrown.
+const commitTransaction = (action: string, work: () => void) => {
     db.exec("BEGIN TRANSACTION;");
     try {
-        db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId) VALUES (?, ?, ?, ?, ?, ?, ?)")
-          .run([newExpense.id, newExpense.description, newExpense.amount, newExpense.date, newExpense.memberId, newExpense.categoryId, null]);
-
-        const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
-        newExpense.splits.forEach(s => splitStmt.run([newExpense.id, s.memberId, s.amount]));
-        splitStmt.free();
-
-        const notifStmt = db.prepare("INSERT INTO notifications VALUES (?, ?, ?, ?, ?)");
-        notifications.forEach(n => notifStmt.run([n.id, n.message, n.date, n.type, n.isRead ? 1 : 0]));
-        notifStmt.free();
-
+        work();
         db.exec("COMMIT;");
-        await saveDbToIndexedDB();
     } catch (err) {
         db.exec("ROLLBACK;");
-        console.error("Failed to add expense:", err);
+        console.error(`Failed to ${action}:`, err);
+        throw err;
     }
 };
 
-export const deleteExpense = async (id: string) => {
+// Runs `work` inside a single SQL transaction and persists the DB on success. Failures are rolled back and rethrown.
+const runInTransaction = async (action: string, work: () => void) => {
     if (!db) return;
-    db.prepare("DELETE FROM expenses WHERE id = ?").run([id]);
+    commitTransaction(action, work);
     await saveDbToIndexedDB();
 };
 
-export const updateHousehold = async (data: Partial<Omit<Household, 'id'>>) => {
-     if (!db) return;
-    db.exec("BEGIN TRANSACTION;");
-    try {
-        if(data.members) {
-            db.exec("DELETE FROM members");
-            const stmt = db.prepare("INSERT INTO members VALUES (?, ?, ?)");
-            data.members.forEach((m: Member) => stmt.run([m.id, m.name, m.avatarUrl]));
-            stmt.free();
+const insertNotifications = (notifications: Notification[]) => {
+    const notifStmt = db.prepare("INSERT INTO notifications VALUES (?, ?, ?, ?, ?)");
+    notifications.forEach(n => notifStmt.run([n.id, n.message, n.date, n.type, n.isRead ? 1 : 0]));
+    notifStmt.free();
+};
+
+export const addExpense = async (newExpense: Omit<Expense, 'id'> & { id: string }, notifications: Notification[]) => {
+    await runInTransaction('add expense', () => {
+        db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId, notes, splitMode, externalId, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
+          .run([newExpense.id, newExpense.description, newExpense.amount, newExpense.date, newExpense.memberId, newExpense.categoryId, null, newExpense.notes ?? null, newExpense.splitMode ?? null, newExpense.externalId ?? null, newExpense.importBatchId ?? null]);
+
+        const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount, share) VALUES (?, ?, ?, ?)");
+        newExpense.splits.forEach(s => splitStmt.run([newExpense.id, s.memberId, s.amount, s.share ?? null]));
+        splitStmt.free();
+
+        if (newExpense.importMetadata) {
+            const { reference, balance, accountNumber, rawLine } = newExpense.importMetadata;
+            db.prepare("INSERT INTO expense_import_metadata (expenseId, reference, balance, accountNumber, rawLine) VALUES (?, ?, ?, ?, ?)")
+              .run([newExpense.id, reference ?? null, balance ?? null, accountNumber ?? null, rawLine]);
+        }
+
+        insertNotifications(notifications);
+    });
+};
+
+// Rewrites the expense row and replaces its splits; the trip an expense belongs to is left unchanged.
+export const updateExpense = async (expense: Expense, notifications: Notification[]) => {
+    await runInTransaction('update expense', () => {
+        db.prepare("UPDATE expenses SET description = ?, amount = ?, date = ?, memberId = ?, categoryId = ?, notes = ?, splitMode = ? WHERE id = ?")
+          .run([expense.description, expense.amount, expense.date, expense.memberId, expense.categoryId, expense.notes ?? null, expense.splitMode ?? null, expense.id]);
+
+        db.prepare("DELETE FROM expense_splits WHERE expenseId = ?").run([expense.id]);
+        const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount, share) VALUES (?, ?, ?, ?)");
+        expense.splits.forEach(s => splitStmt.run([expense.id, s.memberId, s.amount, s.share ?? null]));
+        splitStmt.free();
+
+        insertNotifications(notifications);
+    });
+};
+
+// sql.js runs without PRAGMA foreign_keys, so ON DELETE CASCADE never fires and splits are removed explicitly.
+export const deleteExpenses = async (ids: string[]) => {
+    await runInTransaction('delete expenses', () => {
+        const splitStmt = db.prepare("DELETE FROM expense_splits WHERE expenseId = ?");
+        const metadataStmt = db.prepare("DELETE FROM expense_import_metadata WHERE expenseId = ?");
+        const expStmt = db.prepare("DELETE FROM expenses WHERE id = ?");
+        ids.forEach(id => {
+            splitStmt.run([id]);
+            metadataStmt.run([id]);
+            expStmt.run([id]);
+        });
+        splitStmt.free();
+        metadataStmt.free();
+        expStmt.free();
+    });
+};
+
+export const deleteExpense = async (id: string) => deleteExpenses([id]);
+
+export const addIncome = async (income: Income) => {
+    await runInTransaction('add income', () => {
+        db.prepare("INSERT INTO incomes (id, description, amount, date, memberId, source, notes, externalId, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+          .run([income.id, income.description, income.amount, income.date, income.memberId, income.source, income.notes ?? null, income.externalId ?? null, income.importBatchId ?? null]);
+    });
+};
+
+export const deleteIncome = async (id: string) => {
+    await runInTransaction('delete income', () => {
+        db.prepare("DELETE FROM incomes WHERE id = ?").run([id]);
+    });
+};
+
+export const updateSettings = async (settings: Partial<Pick<Household, 'name' | 'monthlyIncome' | 'emailAlertsEnabled' | 'aiProvider' | 'aiBaseUrl' | 'aiModel' | 'aiBucketAmounts' | 'aiDailyCallLimit'>>) => {
+    await runInTransaction('update settings', () => {
+        if (settings.name !== undefined) {
+            db.prepare("UPDATE household_settings SET name = ? WHERE id = 'hh-1'").run([settings.name]);
         }
-        if(data.rules) {
-            db.exec("DELETE FROM rules");
-            const stmt = db.prepare("INSERT INTO rules VALUES (?, ?, ?)");
-            data.rules.forEach((r: Rule) => stmt.run([r.id, r.keyword, r.categoryId]));
-            stmt.free();
+        if (settings.monthlyIncome !== undefined) {
+            db.prepare("UPDATE household_settings SET monthlyIncome = ? WHERE id = 'hh-1'").run([settings.monthlyIncome]);
         }
-        if(data.budgets) {
-            db.exec("DELETE FROM budgets");
-            const stmt = db.prepare("INSERT INTO budgets VALUES (?, ?, ?)");
-            data.budgets.forEach((b: Budget) => stmt.run([b.id, b.categoryId, b.amount]));
-            stmt.free();
+        if (settings.emailAlertsEnabled !== undefined) {
+            db.prepare("UPDATE household_settings SET emailAlertsEnabled = ? WHERE id = 'hh-1'").run([settings.emailAlertsEnabled ? 1 : 0]);
         }
-        if(data.bucketGoals) {
-            db.exec("DELETE FROM bucket_goals");
-            const stmt = db.prepare("INSERT INTO bucket_goals VALUES (?, ?, ?, ?)");
-            data.bucketGoals.forEach((g: BucketGoal) => stmt.run([g.id, g.name, g.targetAmount, g.currentAmount]));
-            stmt.free();
+        if (settings.aiProvider !== undefined) {
+            db.prepare("UPDATE household_settings SET aiProvider = ? WHERE id = 'hh-1'").run([settings.aiProvider]);
         }
-        if (data.trips) {
-            db.exec("DELETE FROM trips");
-            db.exec("DELETE FROM expenses WHERE tripId IS NOT NULL");
-            const tripStmt = db.prepare("INSERT INTO trips VALUES (?, ?, ?, ?, ?)");
-            const expStmt = db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId) VALUES (?, ?, ?, ?, ?, ?, ?)");
-            const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount) VALUES (?, ?, ?)");
-            data.trips.forEach((t: Trip) => {
-                tripStmt.run([t.id, t.name, t.startDate, t.endDate, t.budget]);
-                t.expenses.forEach(e => {
-                    expStmt.run([e.id, e.description, e.amount, e.date, e.memberId, e.categoryId, t.id]);
-                    e.splits.forEach(s => splitStmt.run([e.id, s.memberId, s.amount]));
-                });
-            });
-            tripStmt.free();
-            expStmt.free();
-            splitStmt.free();
+        // Blank strings clear these back to the provider's defaults.
+        if (settings.aiBaseUrl !== undefined) {
+            db.prepare("UPDATE household_settings SET aiBaseUrl = ? WHERE id = 'hh-1'").run([settings.aiBaseUrl.trim() || null]);
         }
-        if(data.subscriptions) {
-            db.exec("DELETE FROM subscriptions");
-            const stmt = db.prepare("INSERT INTO subscriptions VALUES (?, ?, ?, ?, ?, ?)");
-            data.subscriptions.forEach((s: Subscription) => stmt.run([s.id, s.description, s.amount, s.frequency, s.nextDueDate, s.categoryId]));
-            stmt.free();
+        if (settings.aiModel !== undefined) {
+            db.prepare("UPDATE household_settings SET aiModel = ? WHERE id = 'hh-1'").run([settings.aiModel.trim() || null]);
         }
-        if(data.monthlyIncome !== undefined || data.emailAlertsEnabled !== undefined) {
-             const settingsStmt = db.prepare("UPDATE household_settings SET monthlyIncome = :income, emailAlertsEnabled = :alerts WHERE id = 'hh-1'");
-             const current = await loadHouseholdData();
-             settingsStmt.run({
-                ':income': data.monthlyIncome ?? current!.monthlyIncome,
-                ':alerts': data.emailAlertsEnabled !== undefined ? (data.emailAlertsEnabled ? 1 : 0) : (current!.emailAlertsEnabled ? 1 : 0)
-             });
-             settingsStmt.free();
+        if (settings.aiBucketAmounts !== undefined) {
+            db.prepare("UPDATE household_settings SET aiBucketAmounts = ? WHERE id = 'hh-1'").run([settings.aiBucketAmounts ? 1 : 0]);
         }
-        
-        db.exec("COMMIT;");
-        await saveDbToIndexedDB();
-    } catch(err) {
-        db.exec("ROLLBACK;");
-        console.error("Failed to update household:", err);
+        if (settings.aiDailyCallLimit !== undefined) {
+            db.prepare("UPDATE household_settings SET aiDailyCallLimit = ? WHERE id = 'hh-1'").run([Math.max(0, Math.round(settings.aiDailyCallLimit))]);
+        }
+    });
+};
+
+// Records a yes or no for one AI feature; undefined goes back to asking next time.
+export const setAiConsent = async (feature: AiFeature, allowed: boolean | undefined) => {
+    await runInTransaction('save AI consent', () => {
+        const [result] = db.exec("SELECT aiConsent FROM household_settings WHERE id = 'hh-1'");
+        const stored = result?.values[0][0];
+        const consent: Partial<Record<AiFeature, boolean>> = stored ? JSON.parse(stored) : {};
+        if (allowed === undefined) {
+            delete consent[feature];
+        } else {
+            consent[feature] = allowed;
+        }
+        db.prepare("UPDATE household_settings SET aiConsent = ? WHERE id = 'hh-1'").run([JSON.stringify(consent)]);
+    });
+};
+
+const AI_PAYLOAD_LOG_LIMIT = 100;
+
+// The call count, payload log and response cache are written as an AI request goes along, but only
+// saved by saveAiActivity once it is over, so a request costs one export of the database in all.
+let hasUnsavedAiActivity = false;
+
+const commitAiActivity = (action: string, work: () => void) => {
+    if (!db) return;
+    commitTransaction(action, work);
+    hasUnsavedAiActivity = true;
+};
+
+export const saveAiActivity = async () => {
+    if (!hasUnsavedAiActivity) return;
+    hasUnsavedAiActivity = false;
+    await saveDbToIndexedDB();
+};
+
+// Keeps the latest requests only; payloads can be large (a whole month of expenses for the chat).
+export const logAiPayload = (entry: AiPayloadLogEntry) => {
+    commitAiActivity('log AI payload', () => {
+        db.prepare("INSERT INTO ai_payload_log (id, feature, provider, sentAt, payload) VALUES (?, ?, ?, ?, ?)")
+          .run([entry.id, entry.feature, entry.provider, entry.sentAt, entry.payload]);
+        db.prepare("DELETE FROM ai_payload_log WHERE id NOT IN (SELECT id FROM ai_payload_log ORDER BY sentAt DESC LIMIT ?)")
+          .run([AI_PAYLOAD_LOG_LIMIT]);
+    });
+};
+
+// Not part of Household: it's only read when the user opens the log.
+export const loadAiPayloadLog = async (): Promise<AiPayloadLogEntry[]> => {
+    if (!db) return [];
+    const stmt = db.prepare("SELECT * FROM ai_payload_log ORDER BY sentAt DESC");
+    const entries = sqlResultToObject(stmt);
+    stmt.free();
+    return entries;
+};
+
+export const clearAiPayloadLog = async () => {
+    await runInTransaction('clear AI payload log', () => {
+        db.exec("DELETE FROM ai_payload_log");
+    });
+};
+
+export const getCachedAiResponse = async (key: string): Promise<string | null> => {
+    if (!db) return null;
+    const [result] = db.exec("SELECT response FROM ai_response_cache WHERE key = ? AND expiresAt > ?", [key, new Date().toISOString()]);
+    return result ? result.values[0][0] as string : null;
+};
+
+// Expired entries are dropped whenever a new one is stored.
+export const cacheAiResponse = (entry: { key: string; feature: AiFeature; response: string; expiresAt: string }) => {
+    commitAiActivity('cache AI response', () => {
+        db.prepare("DELETE FROM ai_response_cache WHERE expiresAt <= ?").run([new Date().toISOString()]);
+        db.prepare("INSERT OR REPLACE INTO ai_response_cache (key, feature, response, expiresAt) VALUES (?, ?, ?, ?)")
+          .run([entry.key, entry.feature, entry.response, entry.expiresAt]);
+    });
+};
+
+export const deleteCachedAiResponse = async (key: string) => {
+    await runInTransaction('forget AI response', () => {
+        db.prepare("DELETE FROM ai_response_cache WHERE key = ?").run([key]);
+    });
+};
+
+export const clearAiResponseCache = async () => {
+    await runInTransaction('clear AI response cache', () => {
+        db.exec("DELETE FROM ai_response_cache");
+    });
+};
+
+// Counts a call unless today's `limit` (0 for none) has been reached, and says whether it was counted.
+// The check and the count happen in one synchronous step, so calls made side by side can't both slip
+// under the limit. Only today's count is kept; `day` is the local date as YYYY-MM-DD.
+export const tryRecordAiCall = (day: string, limit: number): boolean => {
+    let recorded = true;
+    commitAiActivity('record AI call', () => {
+        db.prepare("DELETE FROM ai_daily_usage WHERE day <> ?").run([day]);
+        const [calls] = db.exec("SELECT calls FROM ai_daily_usage WHERE day = ?", [day]);
+        if (limit > 0 && Number(calls?.values[0][0] ?? 0) >= limit) {
+            recorded = false;
+            return;
+        }
+        db.prepare("INSERT INTO ai_daily_usage (day, calls) VALUES (?, 1) ON CONFLICT(day) DO UPDATE SET calls = calls + 1").run([day]);
+    });
+    return recorded;
+};
+
+// Not part of Household, like the payload log: calls happen without the household reloading.
+export const loadAiUsage = async (day: string): Promise<{ callsToday: number; cachedResponses: number }> => {
+    if (!db) return { callsToday: 0, cachedResponses: 0 };
+    const [calls] = db.exec("SELECT calls FROM ai_daily_usage WHERE day = ?", [day]);
+    const [cached] = db.exec("SELECT COUNT(*) FROM ai_response_cache WHERE expiresAt > ?", [new Date().toISOString()]);
+    return { callsToday: Number(calls?.values[0][0] ?? 0), cachedResponses: Number(cached?.values[0][0] ?? 0) };
+};
+
+export const upsertMember = async (member: Member) => {
+    await runInTransaction('save member', () => {
+        db.prepare(`INSERT INTO members (id, name, avatarUrl) VALUES (?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET name = excluded.name, avatarUrl = excluded.avatarUrl`)
+          .run([member.id, member.name, member.avatarUrl]);
+    });
+};
+
+export const deleteMember = async (id: string) => {
+    await runInTransaction('delete member', () => {
+        const [usage] = db.exec(
+            `SELECT (SELECT COUNT(*) FROM expenses WHERE memberId = $id) + (SELECT COUNT(*) FROM expense_splits WHERE memberId = $id)
+                  + (SELECT COUNT(*) FROM settlements WHERE fromMemberId = $id OR toMemberId = $id)
+                  + (SELECT COUNT(*) FROM incomes WHERE memberId = $id)`,
+            { $id: id }
+        );
+        if (usage && usage.values[0][0] > 0) {
+            throw new Error(`Member ${id} is still referenced by expenses, settlements or income.`);
+        }
+        // Bank profiles and split templates only remember the member as a default, so they just forget them.
+        const [profiles] = db.exec("SELECT id, accountMembers FROM bank_profiles WHERE accountMembers IS NOT NULL");
+        const profileStmt = db.prepare("UPDATE bank_profiles SET accountMembers = ? WHERE id = ?");
+        profiles?.values.forEach(([profileId, json]) => {
+            const accountMembers: Record<string, string> = JSON.parse(json as string);
+            const remaining = Object.entries(accountMembers).filter(([, memberId]) => memberId !== id);
+            if (remaining.length < Object.keys(accountMembers).length) profileStmt.run([JSON.stringify(Object.fromEntries(remaining)), profileId]);
+        });
+        profileStmt.free();
+        const [templates] = db.exec("SELECT id, weights FROM split_templates");
+        const templateStmt = db.prepare("UPDATE split_templates SET weights = ? WHERE id = ?");
+        templates?.values.forEach(([templateId, json]) => {
+            const weights: Record<string, number> = JSON.parse(json as string);
+            if (!(id in weights)) return;
+            delete weights[id];
+            templateStmt.run([JSON.stringify(weights), templateId]);
+        });
+        templateStmt.free();
+        db.prepare("DELETE FROM members WHERE id = ?").run([id]);
+    });
+};
+
+export const upsertCategory = async (category: Category) => {
+    await runInTransaction('save category', () => {
+        db.prepare(`INSERT INTO categories (id, name, icon, isArchived, parentId) VALUES (?, ?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET name = excluded.name, icon = excluded.icon, isArchived = excluded.isArchived, parentId = excluded.parentId`)
+          .run([category.id, category.name, category.icon, category.isArchived ? 1 : 0, category.parentId ?? null]);
+    });
+};
+
+/**
+ * Moves everything that references `sourceId` onto `targetId`, then removes the source category.
+ * Budgets can only exist once per category, so a source budget is added onto the target's.
+ */
+export const mergeCategories = async (sourceId: string, targetId: string) => {
+    if (sourceId === targetId) return;
+    await runInTransaction('merge categories', () => {
+        db.prepare("UPDATE expenses SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+        db.prepare("UPDATE rules SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+        db.prepare("UPDATE subscriptions SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+
+        const [targetBudget] = db.exec("SELECT id FROM budgets WHERE categoryId = ?", [targetId]);
+        if (targetBudget) {
+            db.prepare("UPDATE budgets SET amount = amount + COALESCE((SELECT amount FROM budgets WHERE categoryId = ?), 0) WHERE categoryId = ?")
+              .run([sourceId, targetId]);
+            db.prepare("DELETE FROM budgets WHERE categoryId = ?").run([sourceId]);
+        } else {
+            db.prepare("UPDATE budgets SET categoryId = ? WHERE categoryId = ?").run([targetId, sourceId]);
+        }
+
+        // Sub-categories of the source move under the target; if the target was one of them, it takes the source's place.
+        db.prepare(`UPDATE categories
+                    SET parentId = CASE WHEN id = ? THEN (SELECT parentId FROM categories WHERE id = ?) ELSE ? END
+                    WHERE parentId = ?`)
+          .run([targetId, sourceId, targetId, sourceId]);
+
+        db.prepare("DELETE FROM categories WHERE id = ?").run([sourceId]);
+    });
+};
+
+export const upsertRule = async (rule: Rule) => {
+    await runInTransaction('save rule', () => {
+        db.prepare(`INSERT INTO rules (id, keyword, categoryId) VALUES (?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET keyword = excluded.keyword, categoryId = excluded.categoryId`)
+          .run([rule.id, rule.keyword, rule.categoryId]);
+    });
+};
+
+export const deleteRule = async (id: string) => {
+    await runInTransaction('delete rule', () => {
+        db.prepare("DELETE FROM rules WHERE id = ?").run([id]);
+    });
+};
+
+export const upsertBudgets = async (budgets: Budget[]) => {
+    await runInTransaction('save budgets', () => {
+        const stmt = db.prepare(`INSERT INTO budgets (id, categoryId, amount) VALUES (?, ?, ?)
+                                 ON CONFLICT(id) DO UPDATE SET categoryId = excluded.categoryId, amount = excluded.amount`);
+        budgets.forEach(b => stmt.run([b.id, b.categoryId, b.amount]));
+        stmt.free();
+    });
+};
+
+export const upsertBudget = async (budget: Budget) => upsertBudgets([budget]);
+
+export const upsertGoal = async (goal: BucketGoal) => {
+    await runInTransaction('save goal', () => {
+        db.prepare(`INSERT INTO bucket_goals (id, name, targetAmount, currentAmount) VALUES (?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET name = excluded.name, targetAmount = excluded.targetAmount, currentAmount = excluded.currentAmount`)
+          .run([goal.id, goal.name, goal.targetAmount, goal.currentAmount]);
+    });
+};
+
+export const deleteGoal = async (id: string) => {
+    await runInTransaction('delete goal', () => {
+        db.prepare("DELETE FROM bucket_goals WHERE id = ?").run([id]);
+    });
+};
+
+// Only the trip row itself is written; trip expenses are managed through the expense functions.
+export const upsertTrip = async (trip: Omit<Trip, 'expenses'>) => {
+    await runInTransaction('save trip', () => {
+        db.prepare(`INSERT INTO trips (id, name, startDate, endDate, budget) VALUES (?, ?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET name = excluded.name, startDate = excluded.startDate, endDate = excluded.endDate, budget = excluded.budget`)
+          .run([trip.id, trip.name, trip.startDate, trip.endDate, trip.budget]);
+    });
+};
+
+export const deleteTrip = async (id: string) => {
+    await runInTransaction('delete trip', () => {
+        db.prepare("DELETE FROM expense_splits WHERE expenseId IN (SELECT id FROM expenses WHERE tripId = ?)").run([id]);
+        db.prepare("DELETE FROM expense_import_metadata WHERE expenseId IN (SELECT id FROM expenses WHERE tripId = ?)").run([id]);
+        db.prepare("DELETE FROM expenses WHERE tripId = ?").run([id]);
+        db.prepare("DELETE FROM trips WHERE id = ?").run([id]);
+    });
+};
+
+export const upsertSubscription = async (subscription: Subscription) => {
+    await runInTransaction('save subscription', () => {
+        db.prepare(`INSERT INTO subscriptions (id, description, amount, frequency, nextDueDate, categoryId) VALUES (?, ?, ?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET description = excluded.description, amount = excluded.amount, frequency = excluded.frequency,
+                        nextDueDate = excluded.nextDueDate, categoryId = excluded.categoryId`)
+          .run([subscription.id, subscription.description, subscription.amount, subscription.frequency, subscription.nextDueDate, subscription.categoryId]);
+    });
+};
+
+export const deleteSubscription = async (id: string) => {
+    await runInTransaction('delete subscription', () => {
+        db.prepare("DELETE FROM subscriptions WHERE id = ?").run([id]);
+    });
+};
+
+export const addSettlement = async (settlement: Settlement) => {
+    await runInTransaction('record settlement', () => {
+        db.prepare("INSERT INTO settlements (id, fromMemberId, toMemberId, amount, date, note, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?)")
+          .run([settlement.id, settlement.fromMemberId, settlement.toMemberId, settlement.amount, settlement.date, settlement.note ?? null, settlement.importBatchId ?? null]);
+    });
+};
+
+export const deleteSettlement = async (id: string) => {
+    await runInTransaction('delete settlement', () => {
+        db.prepare("DELETE FROM settlements WHERE id = ?").run([id]);
+    });
+};
+
+export const upsertBankProfile = async (profile: BankProfile) => {
+    await runInTransaction('save bank profile', () => {
+        db.prepare(`INSERT INTO bank_profiles (id, name, headerSignature, mapping) VALUES (?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET name = excluded.name, headerSignature = excluded.headerSignature, mapping = excluded.mapping`)
+          .run([profile.id, profile.name, profile.headerSignature, JSON.stringify(profile.mapping)]);
+    });
+};
+
+export const deleteBankProfile = async (id: string) => {
+    await runInTransaction('delete bank profile', () => {
+        db.prepare("DELETE FROM bank_profiles WHERE id = ?").run([id]);
+    });
+};
+
+export const upsertSplitTemplate = async (template: SplitTemplate) => {
+    await runInTransaction('save split template', () => {
+        db.prepare(`INSERT INTO split_templates (id, name, mode, weights) VALUES (?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET name = excluded.name, mode = excluded.mode, weights = excluded.weights`)
+          .run([template.id, template.name, template.mode, JSON.stringify(template.weights)]);
+    });
+};
+
+export const deleteSplitTemplate = async (id: string) => {
+    await runInTransaction('delete split template', () => {
+        db.prepare("DELETE FROM split_templates WHERE id = ?").run([id]);
+    });
+};
+
+const insertImportBatch = (batch: ImportBatch, reconciledPeriod?: ReconciledPeriod) => {
+    db.prepare("INSERT INTO import_batches (id, fileName, fileHash, importedAt, rowCount, parser) VALUES (?, ?, ?, ?, ?, ?)")
+      .run([batch.id, batch.fileName, batch.fileHash, batch.importedAt, batch.rowCount, batch.parser]);
+    if (reconciledPeriod) {
+        const p = reconciledPeriod;
+        db.prepare("INSERT INTO reconciled_periods (id, accountNumber, periodStart, periodEnd, openingBalance, closingBalance, reconciledAt, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?, ?)")
+          .run([p.id, p.accountNumber, p.periodStart, p.periodEnd, p.openingBalance, p.closingBalance, p.reconciledAt, p.importBatchId]);
     }
 };
+
+const insertImportedExpenses = (expenses: Expense[]) => {
+    const expenseStmt = db.prepare("INSERT INTO expenses (id, description, amount, date, memberId, categoryId, tripId, notes, splitMode, externalId, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+    const splitStmt = db.prepare("INSERT INTO expense_splits (expenseId, memberId, amount, share) VALUES (?, ?, ?, ?)");
+    const metadataStmt = db.prepare("INSERT INTO expense_import_metadata (expenseId, reference, balance, accountNumber, rawLine) VALUES (?, ?, ?, ?, ?)");
+    expenses.forEach(e => {
+        expenseStmt.run([e.id, e.description, e.amount, e.date, e.memberId, e.categoryId, null, e.notes ?? null, e.splitMode ?? null, e.externalId ?? null, e.importBatchId ?? null]);
+        e.splits.forEach(s => splitStmt.run([e.id, s.memberId, s.amount, s.share ?? null]));
+        if (e.importMetadata) {
+            const { reference, balance, accountNumber, rawLine } = e.importMetadata;
+            metadataStmt.run([e.id, reference ?? null, balance ?? null, accountNumber ?? null, rawLine]);
+        }
+    });
+    expenseStmt.free();
+    splitStmt.free();
+    metadataStmt.free();
+};
+
+// Records a bank statement import in one go: each file's batch and reconciled period, every selected row,
+// the accounts' remembered members and the alerts raised by the import. Nothing is kept if any of it fails.
+export const importStatementTransactions = async (
+    batches: StatementImport['batches'],
+    expenses: Expense[],
+    incomes: Income[],
+    accountMemberUpdates: StatementImport['accountMemberUpdates'],
+    notifications: Notification[],
+) => {
+    await runInTransaction('import statement transactions', () => {
+        batches.forEach(({ batch, reconciledPeriod }) => insertImportBatch(batch, reconciledPeriod));
+        insertImportedExpenses(expenses);
+
+        const incomeStmt = db.prepare("INSERT INTO incomes (id, description, amount, date, memberId, source, notes, externalId, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)");
+        incomes.forEach(i => incomeStmt.run([i.id, i.description, i.amount, i.date, i.memberId, i.source, i.notes ?? null, i.externalId ?? null, i.importBatchId ?? null]));
+        incomeStmt.free();
+
+        const profileStmt = db.prepare("UPDATE bank_profiles SET accountMembers = ? WHERE id = ?");
+        accountMemberUpdates.forEach(({ profileId, accountMembers }) => profileStmt.run([JSON.stringify(accountMembers), profileId]));
+        profileStmt.free();
+
+        insertNotifications(notifications);
+    });
+};
+
+// Records a Splitwise or spreadsheet import in one go. These are past, already-shared expenses, so unlike
+// addExpense no alerts are raised for them.
+export const importSharedExpenses = async (batch: ImportBatch, expenses: Expense[], settlements: Settlement[]) => {
+    await runInTransaction('import shared expenses', () => {
+        insertImportBatch(batch);
+        insertImportedExpenses(expenses);
+
+        const settlementStmt = db.prepare("INSERT INTO settlements (id, fromMemberId, toMemberId, amount, date, note, importBatchId) VALUES (?, ?, ?, ?, ?, ?, ?)");
+        settlements.forEach(s => settlementStmt.run([s.id, s.fromMemberId, s.toMemberId, s.amount, s.date, s.note ?? null, s.importBatchId ?? null]));
+        settlementStmt.free();
+    });
+};
+
+// Undoes an import: removes every expense (with its splits and statement details), income and settlement it created,
+// any period it reconciled, then the batch itself.
+export const undoImportBatch = async (id: string) => {
+    await runInTransaction('undo import batch', () => {
+        db.prepare("DELETE FROM expense_splits WHERE expenseId IN (SELECT id FROM expenses WHERE importBatchId = ?)").run([id]);
+        db.prepare("DELETE FROM expense_import_metadata WHERE expenseId IN (SELECT id FROM expenses WHERE importBatchId = ?)").run([id]);
+        db.prepare("DELETE FROM expenses WHERE importBatchId = ?").run([id]);
+        db.prepare("DELETE FROM incomes WHERE importBatchId = ?").run([id]);
+        db.prepare("DELETE FROM settlements WHERE importBatchId = ?").run([id]);
+        db.prepare("DELETE FROM reconciled_periods WHERE importBatchId = ?").run([id]);
+        db.prepare("DELETE FROM import_batches WHERE id = ?").run([id]);
+    });
+};
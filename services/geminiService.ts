@@ -1,15 +1,53 @@
-import { GoogleGenAI, Type, Chat } from "@google/genai";
-import { Household, BucketGoal, Expense, ParsedTransaction, Subscription, SavingsSuggestion, Category } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Household, BucketGoal, Expense, ParsedTransaction, Subscription, SavingsSuggestion, BudgetSuggestion, SuggestedSubscription, Category, StatementDetails } from '../types';
+import { getCategoryLabel, getRolledUpSpent, sortCategoriesHierarchically } from '../utils/categoryUtils';
+import { createRedactor, createStreamRestorer } from '../utils/aiRedaction';
+import { sendAiRequest, forgetCachedResponse, startAiChatSession, AiChatSession, AiRequest, AiResponseError, Validated, isRecord, readString, readNumber, readBoolean, readDate, readCategoryId, validateItems } from './ai';
 
 const formatCurrencyForPrompt = (amountInCents: number): number => {
     return amountInCents / 100;
 };
 
+/**
+ * Sends a structured request and checks the reply. If the validator finds problems the request is sent
+ * once more with them listed. A second reply that still has problems is used for whatever in it was
+ * valid; only when nothing was does this throw an AiResponseError.
+ * @param emptyValue - Returned as-is for a blank reply, for requests where "nothing found" is a fair answer.
+ */
+const generateValidated = async <T>(request: AiRequest, validate: (data: unknown) => Validated<T>, emptyValue?: T): Promise<T> => {
+    let issues: string[] = [];
+    let usable: T | null = null;
+    for (const attempt of [1, 2]) {
+        const prompt = attempt === 1
+            ? request.prompt
+            : `${request.prompt}\n\nYour previous response had these problems:\n${issues.map(issue => `- ${issue}`).join('\n')}\nRespond again with corrected JSON.`;
+        const attemptRequest = { ...request, prompt };
+        const text = (await sendAiRequest(attemptRequest)).trim();
+        if (!text && emptyValue !== undefined) return emptyValue;
+
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            issues = ['The response was not valid JSON.'];
+            await forgetCachedResponse(attemptRequest);
+            continue;
+        }
+        const result = validate(data);
+        if (result.issues.length === 0 && result.value !== null) return result.value;
+        issues = result.issues;
+        usable = result.value ?? usable;
+        // Otherwise the flawed reply would be served from the cache the next time this is asked.
+        await forgetCachedResponse(attemptRequest);
+    }
+    if (usable !== null) {
+        console.warn(`AI response for ${request.task} was only partly valid:`, issues);
+        return usable;
+    }
+    throw new AiResponseError(request.task, issues);
+};
+
 type UncategorizedTransaction = Omit<ParsedTransaction, 'categoryId' | 'memberId'>;
 type CategorizedTransaction = Omit<ParsedTransaction, 'memberId'>;
-export type SuggestedSubscription = Omit<Subscription, 'id' | 'nextDueDate'> & { lastPaymentDate: string };
 
 
 /**
@@ -18,10 +56,27 @@ export type SuggestedSubscription = Omit<Subscription, 'id' | 'nextDueDate'> & {
  * @param household - The household data containing categories for suggestion.
  * @returns An object with description, amount, and suggested category name.
  */
-export const analyzeReceiptWithGemini = async (
+type ReceiptDetails = { description: string; amount: number; categoryName: string; };
+
+// A receipt without a usable total is rejected; an unknown category is left blank for the user to pick.
+const validateReceipt = (data: unknown, categories: Category[]): Validated<ReceiptDetails> => {
+  if (!isRecord(data)) return { value: null, issues: ['Expected a JSON object.'] };
+  const issues: string[] = [];
+  const description = readString(data.description);
+  const amount = readNumber(data.amount);
+  const categoryName = readString(data.categoryName);
+  const category = categories.find(c => c.name.toLowerCase() === categoryName?.toLowerCase());
+  if (!description) issues.push('"description" is missing.');
+  if (amount === null || amount <= 0) issues.push(`"amount" must be a positive number, not ${JSON.stringify(data.amount)}.`);
+  if (!category) issues.push(`"categoryName" must be one of the available categories, not ${JSON.stringify(data.categoryName)}.`);
+  if (amount === null || amount <= 0) return { value: null, issues };
+  return { value: { description: description || 'Receipt', amount, categoryName: category?.name || '' }, issues };
+};
+
+export const analyzeReceipt = async (
   imageDataUrl: string,
   household: Household
-): Promise<{ description: string; amount: number; categoryName: string; }> => {
+): Promise<ReceiptDetails> => {
   const match = imageDataUrl.match(/^data:(image\/.+);base64,(.+)$/);
   if (!match) {
     throw new Error('Invalid image data URL');
@@ -29,19 +84,13 @@ export const analyzeReceiptWithGemini = async (
   const mimeType = match[1];
   const base64Data = match[2];
 
-  const imagePart = {
-    inlineData: {
-      mimeType: mimeType,
-      data: base64Data,
-    },
-  };
-
-  const categoryNames = household.categories.map(c => c.name).join(', ');
-  const rulesText = household.rules.map(r => `If description contains "${r.keyword}", the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
-  const recentExpensesText = household.expenses.slice(0, 10).map(e => `- ${e.description} (${household.categories.find(c => c.id === e.categoryId)?.name})`).join('\n');
+  const activeCategories = household.categories.filter(c => !c.isArchived);
+  const categoryNames = activeCategories.map(c => c.name).join(', ');
+  const redactor = createRedactor(household.members, household.aiBucketAmounts);
+  const rulesText = household.rules.map(r => `If description contains "${redactor.text(r.keyword)}", the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
+  const recentExpensesText = household.expenses.slice(0, 10).map(e => `- ${redactor.text(e.description)} (${household.categories.find(c => c.id === e.categoryId)?.name})`).join('\n');
 
-  const textPart = {
-    text: `Analyze this receipt. Your primary goal is to extract the total amount, a short description, and suggest the most relevant category.
+  const prompt = `Analyze this receipt. Your primary goal is to extract the total amount, a short description, and suggest the most relevant category.
 
     Here is some context about the user's finances:
     - Available Categories: [${categoryNames}]
@@ -50,37 +99,32 @@ export const analyzeReceiptWithGemini = async (
     - User's Recent Spending History:
     ${recentExpensesText || 'No recent expenses.'}
 
-    Based on the image and the context provided, please extract the following information. The currency is INR.`,
-  };
+    Based on the image and the context provided, please extract the following information. The currency is INR.`;
   
-  const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [imagePart, textPart] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            description: {
-              type: Type.STRING,
-              description: "A short, clear description of the purchase (e.g., 'Groceries from Reliance Mart')."
-            },
-            amount: {
-              type: Type.NUMBER,
-              description: "The total amount from the receipt as a number (e.g., 450.75)."
-            },
-            categoryName: {
-              type: Type.STRING,
-              description: `The most relevant category from the provided list. Your suggestion should be one of these exact names: [${categoryNames}].`
-            }
+  return generateValidated({
+      task: 'receipt',
+      prompt,
+      attachments: [{ mimeType, data: base64Data }],
+      input: { categoryNames: activeCategories.map(c => c.name) },
+      schema: {
+        type: 'object',
+        properties: {
+          description: {
+            type: 'string',
+            description: "A short, clear description of the purchase (e.g., 'Groceries from Reliance Mart')."
           },
-          required: ["description", "amount", "categoryName"]
-        }
+          amount: {
+            type: 'number',
+            description: "The total amount from the receipt as a number (e.g., 450.75)."
+          },
+          categoryName: {
+            type: 'string',
+            description: `The most relevant category from the provided list. Your suggestion should be one of these exact names: [${categoryNames}].`
+          }
+        },
+        required: ["description", "amount", "categoryName"]
       }
-  });
-
-  const jsonString = response.text.trim();
-  return JSON.parse(jsonString);
+  }, data => validateReceipt(data, activeCategories));
 };
 
 /**
@@ -89,19 +133,30 @@ export const analyzeReceiptWithGemini = async (
  * @returns A markdown string containing the report.
  */
 export const generateSpendingReport = async (household: Household): Promise<string> => {
-    const expensesText = household.expenses
-        .filter(e => new Date(e.date).getMonth() === new Date().getMonth()) // Only this month's expenses
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
+    const toPromptAmount = (amountInCents: number) => redactor.amount(formatCurrencyForPrompt(amountInCents));
+    const expensesThisMonth = household.expenses
+        .filter(e => new Date(e.date).getMonth() === new Date().getMonth()); // Only this month's expenses
+
+    const expensesText = expensesThisMonth
         .map(e => {
-            const category = household.categories.find(c => c.id === e.categoryId)?.name || 'Uncategorized';
-            const member = household.members.find(m => m.id === e.memberId)?.name || 'Unknown';
-            return `- ${e.description}: ${formatCurrencyForPrompt(e.amount)} on ${new Date(e.date).toLocaleDateString()} by ${member} [${category}]`;
+            const category = getCategoryLabel(e.categoryId, household.categories);
+            const member = household.members.find(m => m.id === e.memberId)?.name;
+            return `- ${redactor.text(e.description)}: ${toPromptAmount(e.amount)} on ${new Date(e.date).toLocaleDateString()} by ${member ? redactor.member(member) : 'Unknown'} [${category}]`;
         })
         .join('\n');
 
     const budgetsText = household.budgets.map(b => {
-        const category = household.categories.find(c => c.id === b.categoryId)?.name || 'Uncategorized';
-        return `- ${category}: ${formatCurrencyForPrompt(b.amount)}`;
+        const category = getCategoryLabel(b.categoryId, household.categories);
+        return `- ${category}: ${toPromptAmount(b.amount)}`;
     }).join('\n');
+
+    // Pre-computed so that sub-category spending is rolled up into its parent consistently.
+    const categoryTotalsText = sortCategoriesHierarchically(household.categories)
+        .map(c => ({ label: getCategoryLabel(c.id, household.categories), spent: getRolledUpSpent(expensesThisMonth, c.id, household.categories) }))
+        .filter(t => t.spent > 0)
+        .map(t => `- ${t.label}: ${toPromptAmount(t.spent)}`)
+        .join('\n');
     
     const prompt = `You are a friendly and insightful financial analyst for a family.
     Analyze the following financial data for the current month and generate a report in markdown format.
@@ -113,19 +168,18 @@ export const generateSpendingReport = async (household: Household): Promise<stri
     Monthly Budgets:
     ${budgetsText || "No budgets set for this month."}
 
+    Spent per Category (sub-category spending already included in its parent's total):
+    ${categoryTotalsText || "No spending recorded for this month."}
+
     Please provide a report that includes the following sections:
-    1.  A spending summary table. Create a markdown table with the columns: | Category | Budget | Spent | Difference |. For the 'Difference' column, show a positive value if they saved money and a negative value if they overspent.
+    1.  A spending summary table. Create a markdown table with the columns: | Category | Budget | Spent | Difference |. Take the 'Spent' values from "Spent per Category" rather than adding up expenses yourself, and list sub-categories (e.g. "Transport > Fuel") directly below their parent. For the 'Difference' column, show a positive value if they saved money and a negative value if they overspent.
     2.  A section titled "### Key Insights" highlighting 2-3 important observations (e.g., categories with highest spending, where they are saving well, or areas of overspending).
     3.  A section titled "### Actionable Suggestions" providing 2-3 practical tips for them to improve their finances next month based on their spending.
     
     Be encouraging and helpful in your tone.`;
     
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt
-    });
-
-    return response.text;
+    const report = await sendAiRequest({ task: 'spendingReport', prompt });
+    return redactor.restore(report);
 };
 
 /**
@@ -134,51 +188,72 @@ export const generateSpendingReport = async (household: Household): Promise<stri
  * @param goal - The specific goal to get a suggestion for.
  * @returns An object with the suggested amount and reasoning.
  */
+const validateTransferSuggestion = (data: unknown): Validated<{ amount: number; reasoning: string; }> => {
+    if (!isRecord(data)) return { value: null, issues: ['Expected a JSON object.'] };
+    const amount = readNumber(data.amount);
+    const reasoning = readString(data.reasoning);
+    if (amount === null || amount < 0) return { value: null, issues: [`"amount" must be a number of zero or more, not ${JSON.stringify(data.amount)}.`] };
+    return { value: { amount, reasoning: reasoning || '' }, issues: reasoning ? [] : ['"reasoning" is missing.'] };
+};
+
 export const generateTransferSuggestion = async (household: Household, goal: BucketGoal): Promise<{ amount: number; reasoning:string; }> => {
     const recentExpenses = household.expenses.filter(e => new Date(e.date) > new Date(Date.now() - 30 * 86400000));
     const totalSpentLast30Days = recentExpenses.reduce((sum, e) => sum + e.amount, 0);
     const totalBudget = household.budgets.reduce((sum, b) => sum + b.amount, 0);
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
+    const toPromptAmount = (amountInCents: number) => redactor.amount(formatCurrencyForPrompt(amountInCents));
 
-    const prompt = `You are a helpful savings assistant. A user wants to save for a goal: "${goal.name}" (Target: ${formatCurrencyForPrompt(goal.targetAmount)}, Current: ${formatCurrencyForPrompt(goal.currentAmount)}).
+    const prompt = `You are a helpful savings assistant. A user wants to save for a goal: "${redactor.text(goal.name)}" (Target: ${toPromptAmount(goal.targetAmount)}, Current: ${toPromptAmount(goal.currentAmount)}).
 
     Here is their financial context for the last 30 days:
-    - Total Monthly Budget: ${formatCurrencyForPrompt(totalBudget)}
-    - Total Spent in last 30 days: ${formatCurrencyForPrompt(totalSpentLast30Days)}
+    - Total Monthly Budget: ${toPromptAmount(totalBudget)}
+    - Total Spent in last 30 days: ${toPromptAmount(totalSpentLast30Days)}
     
     Based on this, suggest a "safe-to-transfer" amount they could move to their savings goal right now. This should be a sensible, non-round number that feels achievable. Also provide a short, one-sentence reasoning for your suggestion. The currency is INR.`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    amount: {
-                        type: Type.NUMBER,
-                        description: "The suggested transfer amount as a number (e.g., 1850.50)."
-                    },
-                    reasoning: {
-                        type: Type.STRING,
-                        description: "A short, one-sentence explanation for the suggested amount."
-                    }
+    const suggestion = await generateValidated({
+        task: 'transferSuggestion',
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                amount: {
+                    type: 'number',
+                    description: "The suggested transfer amount as a number (e.g., 1850.50)."
                 },
-                required: ["amount", "reasoning"]
-            }
+                reasoning: {
+                    type: 'string',
+                    description: "A short, one-sentence explanation for the suggested amount."
+                }
+            },
+            required: ["amount", "reasoning"]
         }
-    });
+    }, validateTransferSuggestion);
+    return { ...suggestion, reasoning: redactor.restore(suggestion.reasoning) };
+};
 
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+// Suggestions for unknown categories, or a second one for the same category, are dropped.
+const validateBudgetSuggestions = (data: unknown, categories: Category[]): Validated<BudgetSuggestion[]> => {
+    const seen = new Set<string>();
+    return validateItems(data, item => {
+        if (!isRecord(item)) return { value: null, issues: ['Expected an object.'] };
+        const categoryId = readCategoryId(item.categoryId, categories);
+        const amount = readNumber(item.amount);
+        if (!categoryId) return { value: null, issues: [`"categoryId" ${JSON.stringify(item.categoryId)} is not one of the available categories.`] };
+        if (seen.has(categoryId)) return { value: null, issues: [`Category "${categoryId}" was suggested more than once.`] };
+        if (amount === null || amount < 0) return { value: null, issues: [`"amount" must be a number of zero or more, not ${JSON.stringify(item.amount)}.`] };
+        seen.add(categoryId);
+        return { value: { categoryId, amount, reasoning: readString(item.reasoning) || '' }, issues: [] };
+    });
 };
 
-export const generateBudgetSuggestions = async (household: Household): Promise<Array<{ categoryId: string; amount: number; reasoning: string }>> => {
+export const generateBudgetSuggestions = async (household: Household): Promise<BudgetSuggestion[]> => {
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
     const expenseHistory = household.expenses
         .slice(0, 100) // last 100 expenses
         .map(e => {
             const category = household.categories.find(c => c.id === e.categoryId)?.name || 'Uncategorized';
-            return `- ${e.description}: ${formatCurrencyForPrompt(e.amount)} [${category}] on ${new Date(e.date).toLocaleDateString()}`;
+            return `- ${redactor.text(e.description)}: ${redactor.amount(formatCurrencyForPrompt(e.amount))} [${category}] on ${new Date(e.date).toLocaleDateString()}`;
         }).join('\n');
 
     const categories = household.categories;
@@ -198,36 +273,32 @@ export const generateBudgetSuggestions = async (household: Household): Promise<A
     Return the result as a JSON array.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        categoryId: { type: Type.STRING },
-                        amount: { type: Type.NUMBER },
-                        reasoning: { type: Type.STRING }
-                    },
-                    required: ["categoryId", "amount", "reasoning"]
-                }
+    return generateValidated({
+        task: 'budgetSuggestions',
+        prompt,
+        input: { categories: categoryInfo },
+        schema: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    categoryId: { type: 'string' },
+                    amount: { type: 'number' },
+                    reasoning: { type: 'string' }
+                },
+                required: ["categoryId", "amount", "reasoning"]
             }
         }
-    });
-
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+    }, data => validateBudgetSuggestions(data, categories));
 };
 
 export const generateIncomeBasedBudget = async (
-    monthlyIncome: number,
+    household: Household,
     categories: Category[]
-): Promise<Array<{ categoryId: string; amount: number; reasoning: string }>> => {
+): Promise<BudgetSuggestion[]> => {
     const categoryInfo = categories.map(c => ({ id: c.id, name: c.name }));
-    const incomeInRupees = formatCurrencyForPrompt(monthlyIncome);
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
+    const incomeInRupees = redactor.amount(formatCurrencyForPrompt(household.monthlyIncome));
 
     const prompt = `You are an expert financial planner creating a starter monthly budget for a family based on their income. Their currency is INR.
 
@@ -244,31 +315,37 @@ export const generateIncomeBasedBudget = async (
     For each category, provide a suggested budget amount (in INR) and a short, one-sentence reasoning for the allocation.
     Return the result as a JSON array.`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        categoryId: { type: Type.STRING },
-                        amount: { type: Type.NUMBER, description: "The suggested budget amount in INR." },
-                        reasoning: { type: Type.STRING }
-                    },
-                    required: ["categoryId", "amount", "reasoning"]
-                }
+    return generateValidated({
+        task: 'incomeBudget',
+        prompt,
+        input: { monthlyIncome: incomeInRupees, categories: categoryInfo },
+        schema: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    categoryId: { type: 'string' },
+                    amount: { type: 'number', description: "The suggested budget amount in INR." },
+                    reasoning: { type: 'string' }
+                },
+                required: ["categoryId", "amount", "reasoning"]
             }
         }
-    });
-
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+    }, data => validateBudgetSuggestions(data, categories));
 };
 
 
+const validateAnomalyCheck = (data: unknown): Validated<{ isAnomalous: boolean; reasoning: string; }> => {
+    if (!isRecord(data)) return { value: null, issues: ['Expected a JSON object.'] };
+    const isAnomalous = readBoolean(data.isAnomalous);
+    const reasoning = readString(data.reasoning);
+    if (isAnomalous === null) return { value: null, issues: [`"isAnomalous" must be true or false, not ${JSON.stringify(data.isAnomalous)}.`] };
+    if (isAnomalous && !reasoning) {
+        return { value: { isAnomalous, reasoning: 'This expense looks unusual for its category.' }, issues: ['"reasoning" is required when the transaction is anomalous.'] };
+    }
+    return { value: { isAnomalous, reasoning: reasoning || '' }, issues: [] };
+};
+
 export const detectAnomalousExpense = async (
   household: Household,
   newExpense: Expense
@@ -278,117 +355,176 @@ export const detectAnomalousExpense = async (
         ? categoryExpenses.reduce((sum, e) => sum + e.amount, 0) / categoryExpenses.length
         : 0;
 
-    const expenseHistoryText = categoryExpenses.slice(0, 20).map(e => `${formatCurrencyForPrompt(e.amount)} for "${e.description}"`).join(', ');
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
+    const expenseHistoryText = categoryExpenses.slice(0, 20).map(e => `${redactor.amount(formatCurrencyForPrompt(e.amount))} for "${redactor.text(e.description)}"`).join(', ');
     const newExpenseCategoryName = household.categories.find(c => c.id === newExpense.categoryId)?.name;
 
     const prompt = `You are a financial monitoring AI. Your job is to detect if a new transaction is unusual compared to historical spending.
 
     Category: "${newExpenseCategoryName}"
     Historical Spending in this Category (amounts in INR): ${expenseHistoryText || 'None'}
-    Average spending in this category: ${formatCurrencyForPrompt(averageAmount)}
+    Average spending in this category: ${redactor.amount(formatCurrencyForPrompt(averageAmount))}
 
     New Transaction to Analyze:
-    - Description: "${newExpense.description}"
-    - Amount: ${formatCurrencyForPrompt(newExpense.amount)}
+    - Description: "${redactor.text(newExpense.description)}"
+    - Amount: ${redactor.amount(formatCurrencyForPrompt(newExpense.amount))}
 
     Is this new transaction anomalous (unusually high or out of place)?
     Consider the amount compared to the average and the description. For example, a "car purchase" in the "Groceries" category would be anomalous.
     Provide your answer as a JSON object.
     `;
     
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    isAnomalous: { type: Type.BOOLEAN },
-                    reasoning: { type: Type.STRING, description: "A short, one-sentence explanation IF it is anomalous. E.g., 'This expense is much higher than your average spending in this category.'" }
-                },
-                required: ["isAnomalous", "reasoning"]
-            }
+    return generateValidated({
+        task: 'anomalyCheck',
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                isAnomalous: { type: 'boolean' },
+                reasoning: { type: 'string', description: "A short, one-sentence explanation IF it is anomalous. E.g., 'This expense is much higher than your average spending in this category.'" }
+            },
+            required: ["isAnomalous", "reasoning"]
         }
-    });
+    }, validateAnomalyCheck);
+};
 
-    const jsonString = response.text.trim();
-    return JSON.parse(jsonString);
+// As the model reports it: amounts and balances as standard numbers, not cents.
+type StatementResponse = { transactions: UncategorizedTransaction[]; openingBalance?: number; closingBalance?: number; periodStart?: string; periodEnd?: string; accountNumber?: string; };
+
+/**
+ * Rows without a real date, description or amount are dropped. Negative amounts are made positive,
+ * and a row whose type is unclear is taken as a debit when its amount was negative.
+ */
+const validateStatement = (data: unknown): Validated<StatementResponse> => {
+    if (!isRecord(data)) return { value: null, issues: ['Expected a JSON object.'] };
+    const transactions = validateItems<UncategorizedTransaction>(data.transactions, item => {
+        if (!isRecord(item)) return { value: null, issues: ['Expected an object.'] };
+        const date = readDate(item.date);
+        const description = readString(item.description);
+        const amount = readNumber(item.amount);
+        const typeText = readString(item.type)?.toLowerCase();
+        const type = typeText === 'credit' || typeText === 'debit' ? typeText : amount !== null && amount < 0 ? 'debit' : null;
+        const issues = [
+            !date && `"date" must be a real date in YYYY-MM-DD format, not ${JSON.stringify(item.date)}.`,
+            !description && '"description" is missing.',
+            !amount && `"amount" must be a non-zero number, not ${JSON.stringify(item.amount)}.`,
+            !type && `"type" must be 'credit' or 'debit', not ${JSON.stringify(item.type)}.`,
+        ].filter((issue): issue is string => !!issue);
+        if (issues.length > 0) return { value: null, issues };
+        return { value: { date, description, amount: Math.abs(amount), type }, issues: [] };
+    });
+    if (transactions.value === null) return { value: null, issues: transactions.issues.length > 0 ? transactions.issues : ['"transactions" must be an array.'] };
+
+    // The statement details are optional, so an unreadable one is left out rather than guessed at.
+    const issues = [...transactions.issues];
+    const readOptional = <T>(field: string, read: (value: unknown) => T | null): T | undefined => {
+        if (data[field] === undefined || data[field] === null || data[field] === '') return undefined;
+        const value = read(data[field]);
+        if (value === null) issues.push(`"${field}" could not be read: ${JSON.stringify(data[field])}.`);
+        return value ?? undefined;
+    };
+    return {
+        value: {
+            transactions: transactions.value,
+            openingBalance: readOptional('openingBalance', readNumber),
+            closingBalance: readOptional('closingBalance', readNumber),
+            periodStart: readOptional('periodStart', readDate),
+            periodEnd: readOptional('periodEnd', readDate),
+            accountNumber: readOptional('accountNumber', readString),
+        },
+        issues,
+    };
 };
 
 export const parseBankStatement = async (
     fileData: string,
     mimeType: string,
-): Promise<UncategorizedTransaction[]> => {
+): Promise<{ transactions: UncategorizedTransaction[] } & StatementDetails> => {
     
-    let contentPart;
-    if (mimeType.startsWith('image/') || mimeType === 'application/pdf') {
-        const base64Data = fileData.split(',')[1];
-        contentPart = {
-            inlineData: {
-                mimeType: mimeType,
-                data: base64Data,
-            },
-        };
-    } else if (mimeType === 'text/csv' || mimeType === 'text/plain') {
-        contentPart = { text: fileData };
-    } else {
+    if (!mimeType.startsWith('image/') && mimeType !== 'application/pdf') {
+        // CSV and other delimited text is parsed locally by utils/csvImport.
         throw new Error(`Unsupported mime type: ${mimeType}`);
     }
+    const base64Data = fileData.split(',')[1];
 
     const prompt = `
-        You are an expert financial data extraction tool. Analyze the provided bank or credit card statement content (which could be an image, PDF, or CSV text) and extract all transactions.
+        You are an expert financial data extraction tool. Analyze the provided bank or credit card statement content (which could be an image or PDF) and extract all transactions.
         The primary goal is to identify the date, description, and amount for each transaction.
         Also, determine if each transaction is a 'credit' (money in) or a 'debit' (money out/expense).
         - Dates can be in any format, but you must convert them to "YYYY-MM-DD". Assume the current year if the year is not specified.
         - Amounts may have currency symbols (like ?, $, etc.) or commas, which should be removed. The final amount should be a standard number (e.g., 1250.75). All amounts should be positive.
         - The 'type' should be determined based on context, such as columns labeled 'debit'/'credit', 'withdrawal'/'deposit', or the presence of a negative sign.
         - Ignore any summary rows, headers, or footers that are not actual transactions.
+        - If the statement shows them, also report the opening and closing balances exactly as printed (as standard numbers; negative if overdrawn), the statement period, and the account or card number. Leave them out if they aren't shown; never calculate them.
         
-        Return the data as a JSON array.
+        Return the data as a JSON object.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [contentPart, { text: prompt }] },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        date: {
-                            type: Type.STRING,
-                            description: "The transaction date in YYYY-MM-DD format."
+    const statement = await generateValidated({
+        task: 'bankStatement',
+        prompt,
+        attachments: [{ mimeType, data: base64Data }],
+        schema: {
+            type: 'object',
+            properties: {
+                openingBalance: { type: 'number', description: "The opening balance printed on the statement." },
+                closingBalance: { type: 'number', description: "The closing balance printed on the statement." },
+                periodStart: { type: 'string', description: "The first day of the statement period in YYYY-MM-DD format." },
+                periodEnd: { type: 'string', description: "The last day of the statement period in YYYY-MM-DD format." },
+                accountNumber: { type: 'string', description: "The account or card number as printed, e.g. 'XXXX1234'." },
+                transactions: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            date: {
+                                type: 'string',
+                                description: "The transaction date in YYYY-MM-DD format."
+                            },
+                            description: {
+                                type: 'string',
+                                description: "The transaction description."
+                            },
+                            amount: {
+                                type: 'number',
+                                description: "The transaction amount as a positive number."
+                            },
+                            type: {
+                                type: 'string',
+                                description: "The transaction type, either 'credit' or 'debit'."
+                            }
                         },
-                        description: {
-                            type: Type.STRING,
-                            description: "The transaction description."
-                        },
-                        amount: {
-                            type: Type.NUMBER,
-                            description: "The transaction amount as a positive number."
-                        },
-                        type: {
-                            type: Type.STRING,
-                            description: "The transaction type, either 'credit' or 'debit'."
-                        }
-                    },
-                    required: ["date", "description", "amount", "type"]
-                }
-            }
+                        required: ["date", "description", "amount", "type"]
+                    }
+                },
+            },
+            required: ["transactions"],
         }
-    });
-
-    const jsonString = response.text.trim();
-    if (!jsonString) {
-        return [];
-    }
-    return JSON.parse(jsonString);
+    }, validateStatement, { transactions: [] });
+
+    // Balances are kept in cents like everything else that is stored.
+    const toCents = (value?: number) => value === undefined ? undefined : Math.round(value * 100);
+    return {
+        ...statement,
+        openingBalance: toCents(statement.openingBalance),
+        closingBalance: toCents(statement.closingBalance),
+    };
 };
 
 
+// Ids are matched by name too; an unknown one becomes the fallback category. A list of the wrong length is unusable.
+const validateCategoryIds = (data: unknown, count: number, categories: Pick<Category, 'id' | 'name'>[], fallbackId: string): Validated<string[]> => {
+    if (!Array.isArray(data)) return { value: null, issues: ['Expected a JSON array of category IDs.'] };
+    if (data.length !== count) return { value: null, issues: [`Expected ${count} category IDs, one per description, but got ${data.length}.`] };
+    const issues: string[] = [];
+    const categoryIds = data.map((value, index) => {
+        const categoryId = readCategoryId(value, categories);
+        if (!categoryId) issues.push(`Item ${index + 1}: ${JSON.stringify(value)} is not one of the user's category IDs.`);
+        return categoryId || fallbackId;
+    });
+    return { value: categoryIds, issues };
+};
+
 export const categorizeTransactions = async (
     transactions: UncategorizedTransaction[],
     household: Household
@@ -397,9 +533,10 @@ export const categorizeTransactions = async (
         return [];
     }
 
-    const categoryInfo = household.categories.map(c => ({ id: c.id, name: c.name, icon: c.icon }));
-    const rulesText = household.rules.map(r => `If description contains "${r.keyword}", the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
-    const descriptions = transactions.map(t => t.description);
+    const categoryInfo = household.categories.filter(c => !c.isArchived).map(c => ({ id: c.id, name: c.name, icon: c.icon }));
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
+    const rulesText = household.rules.map(r => `If description contains "${redactor.text(r.keyword)}", the category is "${household.categories.find(c => c.id === r.categoryId)?.name}".`).join('\n');
+    const descriptions = transactions.map(t => redactor.text(t.description));
 
     const prompt = `You are an intelligent financial assistant. Your task is to categorize a list of bank transactions based on the user's defined categories and auto-categorization rules.
 
@@ -415,45 +552,68 @@ export const categorizeTransactions = async (
     Please return a JSON array of strings, where each string is the category ID (e.g., "cat-1") corresponding to each transaction description in the provided order. If no category fits well, use the ID for the "Other" category if it exists, otherwise pick the most reasonable one. The length of your returned array must exactly match the number of descriptions provided.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
+    const otherCategoryId = household.categories.find(c => c.name.toLowerCase() === 'other')?.id || household.categories[0]?.id;
+    try {
+        const categoryIds = await generateValidated({
+            task: 'categorize',
+            prompt,
+            input: { descriptions, categories: categoryInfo },
+            schema: {
+                type: 'array',
                 items: {
-                    type: Type.STRING,
+                    type: 'string',
                     description: "The category ID for the transaction."
                 }
             }
-        }
-    });
-
-    const jsonString = response.text.trim();
-    const categoryIds: string[] = JSON.parse(jsonString);
-
-    if (categoryIds.length !== transactions.length) {
-        console.error("AI Error: Mismatch in categorized transactions length. Assigning 'Other' as fallback.");
-        const otherCategoryId = household.categories.find(c => c.name.toLowerCase() === 'other')?.id || household.categories[0]?.id;
+        }, data => validateCategoryIds(data, transactions.length, categoryInfo, otherCategoryId));
+
+        return transactions.map((transaction, index) => ({
+            ...transaction,
+            categoryId: categoryIds[index],
+        }));
+    } catch (error) {
+        // The transactions themselves are fine, so an unusable answer only costs the suggestions.
+        if (!(error instanceof AiResponseError)) throw error;
+        console.error("AI Error: Could not categorize transactions. Assigning 'Other' as fallback.", error.issues);
         return transactions.map(t => ({ ...t, categoryId: otherCategoryId }));
     }
+};
 
-    return transactions.map((transaction, index) => ({
-        ...transaction,
-        categoryId: categoryIds[index],
-    }));
+const FREQUENCY_ALIASES: Record<string, Subscription['frequency']> = {
+    weekly: 'weekly', week: 'weekly',
+    monthly: 'monthly', month: 'monthly',
+    yearly: 'yearly', year: 'yearly', annual: 'yearly', annually: 'yearly',
 };
 
+const validateRecurringPayments = (data: unknown, categories: Pick<Category, 'id' | 'name'>[]): Validated<SuggestedSubscription[]> =>
+    validateItems(data, item => {
+        if (!isRecord(item)) return { value: null, issues: ['Expected an object.'] };
+        const description = readString(item.description);
+        const amount = readNumber(item.amount);
+        const frequency = FREQUENCY_ALIASES[readString(item.frequency)?.toLowerCase() || ''];
+        const categoryId = readCategoryId(item.categoryId, categories);
+        const lastPaymentDate = readDate(item.lastPaymentDate);
+        const issues = [
+            !description && '"description" is missing.',
+            (amount === null || amount <= 0) && `"amount" must be a positive number, not ${JSON.stringify(item.amount)}.`,
+            !frequency && `"frequency" must be 'weekly', 'monthly' or 'yearly', not ${JSON.stringify(item.frequency)}.`,
+            !categoryId && `"categoryId" ${JSON.stringify(item.categoryId)} is not one of the available categories.`,
+            !lastPaymentDate && `"lastPaymentDate" must be a real date in YYYY-MM-DD format, not ${JSON.stringify(item.lastPaymentDate)}.`,
+        ].filter((issue): issue is string => !!issue);
+        if (issues.length > 0) return { value: null, issues };
+        return { value: { description, amount, frequency, categoryId, lastPaymentDate }, issues: [] };
+    });
+
 export const detectRecurringPayments = async (household: Household): Promise<SuggestedSubscription[]> => {
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
     const expenseHistory = household.expenses.slice(0, 200).map(e => ({
         date: e.date.split('T')[0],
-        description: e.description,
-        amount: formatCurrencyForPrompt(e.amount),
+        description: redactor.text(e.description),
+        amount: redactor.amount(formatCurrencyForPrompt(e.amount)),
         category: household.categories.find(c => c.id === e.categoryId)?.name,
     }));
 
-    const existingSubscriptions = household.subscriptions.map(s => s.description);
+    const existingSubscriptions = household.subscriptions.map(s => redactor.text(s.description));
     const categoryInfo = household.categories.map(c => ({ id: c.id, name: c.name }));
 
     const prompt = `You are a financial analyst AI. Your task is to detect potential recurring payments (subscriptions, bills) from a user's expense history.
@@ -469,47 +629,59 @@ export const detectRecurringPayments = async (household: Household): Promise<Sug
     Based on this data, identify potential recurring payments. For each one you find, provide the most recent payment date. Return your findings as a JSON array.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        description: { type: Type.STRING, description: "A clean description for the recurring payment (e.g., 'Netflix Subscription')." },
-                        amount: { type: Type.NUMBER, description: "The recurring amount in INR (e.g., 649.00)." },
-                        frequency: { type: Type.STRING, description: "The estimated frequency: 'weekly', 'monthly', or 'yearly'." },
-                        categoryId: { type: Type.STRING, description: "The most likely category ID from the provided list." },
-                        lastPaymentDate: { type: Type.STRING, description: "The date of the most recent transaction for this recurring payment in YYYY-MM-DD format." }
-                    },
-                    required: ["description", "amount", "frequency", "categoryId", "lastPaymentDate"]
-                }
+    const payments = await generateValidated({
+        task: 'recurringPayments',
+        prompt,
+        input: { categories: categoryInfo },
+        schema: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    description: { type: 'string', description: "A clean description for the recurring payment (e.g., 'Netflix Subscription')." },
+                    amount: { type: 'number', description: "The recurring amount in INR (e.g., 649.00)." },
+                    frequency: { type: 'string', description: "The estimated frequency: 'weekly', 'monthly', or 'yearly'." },
+                    categoryId: { type: 'string', description: "The most likely category ID from the provided list." },
+                    lastPaymentDate: { type: 'string', description: "The date of the most recent transaction for this recurring payment in YYYY-MM-DD format." }
+                },
+                required: ["description", "amount", "frequency", "categoryId", "lastPaymentDate"]
             }
         }
-    });
-
-    const jsonString = response.text.trim();
-    if (!jsonString) {
-      return [];
-    }
-    return JSON.parse(jsonString);
+    }, data => validateRecurringPayments(data, categoryInfo), []);
+    return payments.map(p => ({ ...p, description: redactor.restore(p.description) }));
 };
 
 
+const validateSavingsSuggestions = (data: unknown, categories: Category[]): Validated<SavingsSuggestion[]> =>
+    validateItems(data, item => {
+        if (!isRecord(item)) return { value: null, issues: ['Expected an object.'] };
+        const categoryName = readString(item.categoryName);
+        const category = categories.find(c => c.name.toLowerCase() === categoryName?.toLowerCase());
+        const reasoning = readString(item.reasoning);
+        const suggestion = readString(item.suggestion);
+        const potentialSavings = readNumber(item.potentialSavings);
+        const issues = [
+            !category && `"categoryName" ${JSON.stringify(item.categoryName)} is not one of the available categories.`,
+            !reasoning && '"reasoning" is missing.',
+            !suggestion && '"suggestion" is missing.',
+            (potentialSavings === null || potentialSavings < 0) && `"potentialSavings" must be a number of zero or more, not ${JSON.stringify(item.potentialSavings)}.`,
+        ].filter((issue): issue is string => !!issue);
+        if (issues.length > 0) return { value: null, issues };
+        return { value: { categoryName: category.name, reasoning, suggestion, potentialSavings }, issues: [] };
+    });
+
 export const generateSavingsSuggestions = async (household: Household): Promise<SavingsSuggestion[]> => {
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
     const expensesLast60Days = household.expenses.filter(e => new Date(e.date) > new Date(Date.now() - 60 * 86400000));
 
     const expenseText = expensesLast60Days.map(e => {
         const category = household.categories.find(c => c.id === e.categoryId)?.name || 'Uncategorized';
-        return `- ${formatCurrencyForPrompt(e.amount)} for "${e.description}" in [${category}] on ${new Date(e.date).toLocaleDateString()}`;
+        return `- ${redactor.amount(formatCurrencyForPrompt(e.amount))} for "${redactor.text(e.description)}" in [${category}] on ${new Date(e.date).toLocaleDateString()}`;
     }).join('\n');
 
     const budgetsText = household.budgets.map(b => {
         const category = household.categories.find(c => c.id === b.categoryId)?.name || 'Uncategorized';
-        return `- ${category}: ${formatCurrencyForPrompt(b.amount)}`;
+        return `- ${category}: ${redactor.amount(formatCurrencyForPrompt(b.amount))}`;
     }).join('\n');
 
     const categoryNames = household.categories.map(c => c.name).join(', ');
@@ -532,48 +704,46 @@ export const generateSavingsSuggestions = async (household: Household): Promise<
     Return your response as a JSON array.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        categoryName: { type: Type.STRING },
-                        reasoning: { type: Type.STRING },
-                        suggestion: { type: Type.STRING },
-                        potentialSavings: { type: Type.NUMBER }
-                    },
-                    required: ["categoryName", "reasoning", "suggestion", "potentialSavings"]
-                }
+    const suggestions = await generateValidated({
+        task: 'savingsSuggestions',
+        prompt,
+        schema: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    categoryName: { type: 'string' },
+                    reasoning: { type: 'string' },
+                    suggestion: { type: 'string' },
+                    potentialSavings: { type: 'number' }
+                },
+                required: ["categoryName", "reasoning", "suggestion", "potentialSavings"]
             }
         }
-    });
-    
-    const jsonString = response.text.trim();
-    if (!jsonString) {
-      return [];
-    }
-    return JSON.parse(jsonString);
+    }, data => validateSavingsSuggestions(data, household.categories), []);
+    return suggestions.map(s => ({ ...s, reasoning: redactor.restore(s.reasoning), suggestion: redactor.restore(s.suggestion) }));
 };
 
-export const startAiChat = (household: Household): Chat => {
+export const startAiChat = (household: Household): AiChatSession => {
+    const redactor = createRedactor(household.members, household.aiBucketAmounts);
+    const toPromptAmount = (amountInCents: number) => redactor.amount(formatCurrencyForPrompt(amountInCents));
+
     // Sanitize and summarize the household data to create a concise context.
     const context = {
-        members: household.members.map(m => ({ id: m.id, name: m.name })),
+        members: household.members.map(m => ({ id: m.id, name: redactor.member(m.name) })),
         categories: household.categories.map(c => ({ id: c.id, name: c.name })),
-        totalMonthlyIncome: formatCurrencyForPrompt(household.monthlyIncome),
+        totalMonthlyIncome: toPromptAmount(household.monthlyIncome),
+        recordedIncomeThisMonth: toPromptAmount(household.incomes
+            .filter(i => new Date(i.date).getMonth() === new Date().getMonth())
+            .reduce((sum, i) => sum + i.amount, 0)),
         currentMonthExpenses: household.expenses
             .filter(e => new Date(e.date).getMonth() === new Date().getMonth())
             .map(e => ({
-                description: e.description,
-                amount: formatCurrencyForPrompt(e.amount),
+                description: redactor.text(e.description),
+                amount: toPromptAmount(e.amount),
                 date: e.date.split('T')[0],
                 category: household.categories.find(c => c.id === e.categoryId)?.name || 'N/A',
-                paidBy: household.members.find(m => m.id === e.memberId)?.name || 'N/A',
+                paidBy: redactor.member(household.members.find(m => m.id === e.memberId)?.name || 'N/A'),
             })),
         budgets: household.budgets.map(b => {
             const spent = household.expenses
@@ -581,18 +751,18 @@ export const startAiChat = (household: Household): Chat => {
                 .reduce((sum, e) => sum + e.amount, 0);
             return {
                 category: household.categories.find(c => c.id === b.categoryId)?.name || 'N/A',
-                amount: formatCurrencyForPrompt(b.amount),
-                spent: formatCurrencyForPrompt(spent),
+                amount: toPromptAmount(b.amount),
+                spent: toPromptAmount(spent),
             };
         }),
         goals: household.bucketGoals.map(g => ({
-            name: g.name,
-            target: formatCurrencyForPrompt(g.targetAmount),
-            saved: formatCurrencyForPrompt(g.currentAmount),
+            name: redactor.text(g.name),
+            target: toPromptAmount(g.targetAmount),
+            saved: toPromptAmount(g.currentAmount),
         })),
         subscriptions: household.subscriptions.map(s => ({
-            description: s.description,
-            amount: formatCurrencyForPrompt(s.amount),
+            description: redactor.text(s.description),
+            amount: toPromptAmount(s.amount),
             nextDue: s.nextDueDate.split('T')[0],
         })),
     };
@@ -613,12 +783,16 @@ export const startAiChat = (household: Household): Chat => {
     - If asked for an opinion or advice, reframe the answer to be a data-driven observation. For example, if asked "Am I spending too much on food?", you can answer "Your spending on 'Dining Out' this month is ?X, which is Y% of your total expenses. Your budget for this category is ?Z."
     - Be conversational and friendly.`;
 
-    const chat: Chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: systemInstruction,
+    // Names typed into the chat are pseudonymised too, and put back into the answers as they stream in.
+    const session = startAiChatSession(systemInstruction);
+    return {
+        async *sendMessageStream(message) {
+            const restorer = createStreamRestorer(redactor);
+            for await (const chunk of session.sendMessageStream(redactor.text(message))) {
+                const text = restorer.push(chunk);
+                if (text) yield text;
+            }
+            yield restorer.flush();
         },
-    });
-
-    return chat;
+    };
 };
\ No newline at end of file
@@ -10,6 +10,8 @@ export interface Category {
   id: string;
   name: string;
   icon: string;
+  isArchived?: boolean; // hidden from pickers, kept for history
+  parentId?: string; // set for sub-categories, e.g. "Transport > Fuel"
 }
 
 export interface Rule {
@@ -18,9 +20,22 @@ export interface Rule {
   categoryId: string;
 }
 
+// How an expense was divided; amounts are always stored, the mode is kept so the split can be shown again.
+// 'except' is an equal split among everyone but the members left out.
+export type SplitMode = 'exact' | 'equal' | 'except' | 'percentage' | 'shares';
+
 export interface Split {
   memberId: string;
   amount: number; // in cents
+  share?: number; // the percentage or share weight it was derived from; unset for exact splits
+}
+
+// A saved way of dividing expenses, e.g. "50/50 household", that can be applied to imported rows.
+export interface SplitTemplate {
+  id: string;
+  name: string;
+  mode: Exclude<SplitMode, 'exact' | 'except'>;
+  weights: Record<string, number>; // by member id: a percentage, a share count, or 1/0 for included/excluded
 }
 
 export interface Expense {
@@ -31,6 +46,33 @@ export interface Expense {
   memberId: string; // payer
   categoryId: string;
   splits: Split[];
+  splitMode?: SplitMode; // unset means exact amounts
+  notes?: string;
+  externalId?: string; // the bank's id for an imported transaction, e.g. an OFX FITID
+  importBatchId?: string; // the statement import that created it
+  importMetadata?: ImportMetadata;
+}
+
+// What the bank said about an imported transaction, kept for reconciling against its statements.
+export interface ImportMetadata {
+  reference?: string; // cheque, UPI or bank reference number
+  balance?: number; // in cents, the account balance after the transaction
+  accountNumber?: string;
+  rawLine: string; // the statement row or alert as it was read
+}
+
+export type IncomeSource = 'salary' | 'refund' | 'interest' | 'cashback' | 'other';
+
+export interface Income {
+  id: string;
+  description: string;
+  amount: number; // in cents
+  date: string; // ISO string
+  memberId: string; // who received it
+  source: IncomeSource;
+  notes?: string;
+  externalId?: string; // the bank's id for an imported transaction, e.g. an OFX FITID
+  importBatchId?: string; // the statement import that created it
 }
 
 export interface Budget {
@@ -64,6 +106,69 @@ export interface Subscription {
   categoryId: string;
 }
 
+// A payment between members that pays back shared expenses; not counted as spending.
+export interface Settlement {
+  id: string;
+  fromMemberId: string; // who paid back
+  toMemberId: string; // who received the money
+  amount: number; // in cents
+  date: string; // ISO string
+  note?: string;
+  importBatchId?: string; // the Splitwise or spreadsheet import that created it
+}
+
+// Which backend the AI features talk to. 'mock' answers from built-in fixtures without any network.
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Each request the app sends to a model.
+export type AiTask =
+  | 'receipt'
+  | 'spendingReport'
+  | 'transferSuggestion'
+  | 'budgetSuggestions'
+  | 'incomeBudget'
+  | 'anomalyCheck'
+  | 'bankStatement'
+  | 'categorize'
+  | 'recurringPayments'
+  | 'savingsSuggestions';
+
+// What the user gives or refuses consent for: every task, plus the chat assistant.
+export type AiFeature = AiTask | 'chat';
+
+// One request as it was sent to a provider, kept so the user can see exactly what left the device.
+export interface AiPayloadLogEntry {
+  id: string;
+  feature: AiFeature;
+  provider: AiProviderId;
+  sentAt: string; // ISO string
+  payload: string;
+}
+
+export type ImportParser = 'csv' | 'ofx' | 'qif' | 'sms' | 'ai' | 'splitwise' | 'template';
+
+// One run of "Import Selected" from a statement, so that everything it created can be undone together.
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  fileHash: string; // SHA-256 of the file, hex encoded
+  importedAt: string; // ISO string
+  rowCount: number; // expenses and income created
+  parser: ImportParser;
+}
+
+// A statement period whose transactions were checked to add up from its opening to its closing balance.
+export interface ReconciledPeriod {
+  id: string;
+  accountNumber: string; // last four digits, so differently masked statements of an account match; empty if not shown
+  periodStart: string; // "YYYY-MM-DD"
+  periodEnd: string; // "YYYY-MM-DD"
+  openingBalance: number; // in cents
+  closingBalance: number; // in cents
+  reconciledAt: string; // ISO string
+  importBatchId: string; // undoing the import also removes the period
+}
+
 export interface Notification {
   id: string;
   message: string;
@@ -79,13 +184,25 @@ export interface Household {
   categories: Category[];
   rules: Rule[];
   expenses: Expense[];
+  incomes: Income[];
   budgets: Budget[];
   bucketGoals: BucketGoal[];
   trips: Trip[];
   subscriptions: Subscription[];
+  settlements: Settlement[];
+  bankProfiles: BankProfile[];
+  splitTemplates: SplitTemplate[];
+  importBatches: ImportBatch[];
+  reconciledPeriods: ReconciledPeriod[];
   notifications: Notification[];
   emailAlertsEnabled: boolean;
   monthlyIncome: number; // in cents
+  aiProvider: AiProviderId;
+  aiBaseUrl?: string; // only used by the OpenAI-compatible provider, e.g. "http://localhost:11434/v1"
+  aiModel?: string; // overrides the provider's default model
+  aiConsent: Partial<Record<AiFeature, boolean>>; // features missing here haven't been asked about yet
+  aiBucketAmounts: boolean; // round amounts in household history before sending them
+  aiDailyCallLimit: number; // AI calls allowed per day; 0 means no limit
 }
 
 export interface ParsedTransaction {
@@ -95,8 +212,77 @@ export interface ParsedTransaction {
     type: 'credit' | 'debit';
     categoryId: string;
     memberId: string;
+    externalId?: string; // set when the statement format has transaction ids (OFX FITID, QIF reference)
+    metadata?: ImportMetadata; // set by the local parsers; the AI parser doesn't see individual lines
+}
+
+// What a statement says about itself besides its transactions, when the parser can read it.
+export interface StatementDetails {
+    accountNumber?: string;
+    openingBalance?: number; // in cents
+    closingBalance?: number; // in cents
+    periodStart?: string; // "YYYY-MM-DD"
+    periodEnd?: string; // "YYYY-MM-DD"
+}
+
+// One file's (or one paste's) worth of categorized transactions, as handed to the import review.
+export interface ImportSource {
+    fileName: string;
+    fileHash: string;
+    parser: ImportParser;
+    bankProfileId?: string; // the saved CSV profile it was read with
+    statementDetails: StatementDetails;
+    transactions: Omit<ParsedTransaction, 'memberId'>[];
 }
 
+// Everything one "Import Selected" saves together: a batch (and reconciled period) per file, the selected
+// rows, and the member each bank profile should default an account to next time.
+export interface StatementImport {
+    batches: { batch: ImportBatch; reconciledPeriod?: ReconciledPeriod }[];
+    expenses: Omit<Expense, 'id'>[];
+    incomes: Omit<Income, 'id'>[];
+    accountMemberUpdates: { profileId: string; accountMembers: Record<string, string> }[];
+}
+
+// Order of the day, month and year in a statement's date column.
+export type CsvDateFormat = 'DMY' | 'MDY' | 'YMD';
+
+// Describes where a bank's CSV export keeps each field. Column indexes are 0-based; -1 means unused.
+export interface CsvColumnMapping {
+    skipHeaderRows: number; // rows above the first transaction; the last of them holds the column titles
+    skipFooterRows: number; // summary rows below the last transaction
+    dateColumn: number;
+    dateFormat: CsvDateFormat;
+    descriptionColumn: number;
+    amountMode: 'signed' | 'debitCredit';
+    amountColumn: number; // 'signed' mode: negative amounts (or a "Dr" suffix) are debits
+    debitColumn: number; // 'debitCredit' mode
+    creditColumn: number; // 'debitCredit' mode
+    referenceColumn?: number; // optional; profiles saved before these were added don't have them
+    balanceColumn?: number;
+}
+
+// A saved column mapping, recognised on later uploads by the file's column titles.
+export interface BankProfile {
+    id: string;
+    name: string;
+    headerSignature: string;
+    mapping: CsvColumnMapping;
+    accountMembers?: Record<string, string>; // member id by the account's last four digits ('' when statements don't show it)
+}
+
+export interface BudgetSuggestion {
+    categoryId: string;
+    amount: number; // in INR, not cents
+    reasoning: string;
+}
+
+// A recurring payment spotted in the expense history, not yet tracked as a subscription.
+export type SuggestedSubscription = Omit<Subscription, 'id' | 'nextDueDate' | 'amount'> & {
+    amount: number; // in INR, not cents
+    lastPaymentDate: string; // YYYY-MM-DD
+};
+
 export interface SavingsSuggestion {
     categoryName: string;
     reasoning: string;
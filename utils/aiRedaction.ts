@@ -0,0 +1,85 @@
+import { Member } from '../types';
+
+// Applied in this order, so an account number inside a UPI handle goes with the handle.
+const IDENTIFIER_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /[\w.\-]+@[\w.\-]+/g, replacement: '[UPI ID]' }, // UPI handles (name@okaxis, 98xxxxxx10@ybl) and email addresses
+  { pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g, replacement: '[IFSC]' },
+  { pattern: /(?<![\w*])[Xx*]{2,}[\s-]?\d{2,}\b/g, replacement: '[ACCOUNT]' }, // masked numbers such as XXXX1234 or ****1234
+  { pattern: /\b\d{4}(?:[ -]\d{4}){2,3}\b/g, replacement: '[ACCOUNT]' }, // card numbers written in groups
+  { pattern: /\b\d{5} \d{5}\b/g, replacement: '[ACCOUNT]' }, // phone numbers written 98765 43210
+  { pattern: /\b\d{9,}\b/g, replacement: '[ACCOUNT]' }, // account, card, phone and UPI reference numbers
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "Member A", "Member B"… in the household's member order.
+const getPseudonym = (index: number) => `Member ${index < 26 ? String.fromCharCode(65 + index) : index + 1}`;
+
+// Rounds to the nearest step of the 1-2-5 series (…, 500, 1,000, 2,000, 5,000, …), so 1,780 becomes 2,000.
+export const bucketAmount = (amount: number): number => {
+  if (amount === 0) return 0;
+  const magnitude = 10 ** Math.floor(Math.log10(Math.abs(amount)));
+  const nearest = [1, 2, 5, 10]
+    .map(step => step * magnitude)
+    .reduce((best, step) => Math.abs(Math.abs(amount) - step) < Math.abs(Math.abs(amount) - best) ? step : best);
+  return Math.sign(amount) * nearest;
+};
+
+export interface Redactor {
+  member: (name: string) => string; // a member's pseudonym; other names are returned unchanged
+  text: (value: string) => string; // free text with member names pseudonymised and identifiers removed
+  amount: (value: number) => number; // bucketed when the household asked for it
+  restore: (text: string) => string; // puts real member names back into the model's answer
+}
+
+/**
+ * Prepares household data for a prompt. Member names become pseudonyms wherever they appear, and
+ * UPI handles, IFSC codes and account, card or phone numbers are removed from descriptions.
+ */
+export const createRedactor = (members: Member[], bucketAmounts: boolean): Redactor => {
+  const pseudonyms = members
+    .map((m, index) => ({ name: m.name.trim(), pseudonym: getPseudonym(index) }))
+    .filter(p => p.name.length > 1)
+    .sort((a, b) => b.name.length - a.name.length); // "Priya Shah" before "Priya"
+  const namePatterns = pseudonyms.map(p => ({ ...p, pattern: new RegExp(`\\b${escapeRegExp(p.name)}\\b`, 'gi') }));
+  const pseudonymPatterns = pseudonyms.map(p => ({ ...p, pattern: new RegExp(`\\b${p.pseudonym}\\b`, 'g') }));
+
+  return {
+    member: (name) => pseudonyms.find(p => p.name.toLowerCase() === name.trim().toLowerCase())?.pseudonym ?? name,
+    text: (value) => {
+      const withoutIdentifiers = IDENTIFIER_PATTERNS.reduce((text, { pattern, replacement }) => text.replace(pattern, replacement), value);
+      return namePatterns.reduce((text, { pattern, pseudonym }) => text.replace(pattern, pseudonym), withoutIdentifiers);
+    },
+    amount: (value) => bucketAmounts ? bucketAmount(value) : value,
+    restore: (text) => pseudonymPatterns.reduce((restored, { pattern, name }) => restored.replace(pattern, name), text),
+  };
+};
+
+const MAX_PSEUDONYM_LENGTH = getPseudonym(99).length;
+
+/**
+ * Restores names in an answer that arrives in pieces. The tail that could still be part of a
+ * pseudonym is held back until the next piece (or `flush`) shows how it ends.
+ */
+export const createStreamRestorer = (redactor: Redactor) => {
+  let raw = '';
+  let emittedUpTo = 0; // in raw text
+  let emittedLength = 0; // in restored text
+  const emitUpTo = (cut: number) => {
+    const restored = redactor.restore(raw.slice(0, cut));
+    const next = restored.slice(emittedLength);
+    emittedUpTo = cut;
+    emittedLength = restored.length;
+    return next;
+  };
+  return {
+    push: (chunk: string): string => {
+      raw += chunk;
+      let cut = raw.length - MAX_PSEUDONYM_LENGTH;
+      const pseudonymStart = raw.lastIndexOf('Member', cut);
+      if (pseudonymStart >= 0 && pseudonymStart + MAX_PSEUDONYM_LENGTH > cut) cut = pseudonymStart;
+      return cut > emittedUpTo ? emitUpTo(cut) : '';
+    },
+    flush: (): string => emitUpTo(raw.length),
+  };
+};
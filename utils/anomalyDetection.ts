@@ -0,0 +1,49 @@
+import { Expense } from '../types';
+
+export interface AnomalyCheck {
+  isAnomalous: boolean;
+  reasoning: string;
+}
+
+const MIN_HISTORY = 5; // fewer past expenses than this say too little about what's usual
+const Z_SCORE_LIMIT = 2.5;
+const MIN_MEDIAN_MULTIPLE = 1.5; // so a ₹520 bill isn't flagged in a category that's always exactly ₹500
+
+const formatRupees = (amountInCents: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(amountInCents / 100);
+
+// Linear interpolation between the closest ranks, as spreadsheets compute it.
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Checks an expense against past spending in its category without AI. It is unusual only when it is
+ * above the IQR fence (Q3 + 1.5 × IQR), more than 2.5 standard deviations above the mean and at least
+ * 1.5 times the median, so that one test alone being thrown by a small or lumpy history isn't enough.
+ */
+export const detectAnomalyLocally = (history: Expense[], expense: Expense, categoryName: string): AnomalyCheck => {
+  const amounts = history.map(e => e.amount).sort((a, b) => a - b);
+  if (amounts.length < MIN_HISTORY) return { isAnomalous: false, reasoning: '' };
+
+  const mean = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+  const standardDeviation = Math.sqrt(amounts.reduce((sum, a) => sum + (a - mean) ** 2, 0) / amounts.length);
+  const zScore = standardDeviation > 0 ? (expense.amount - mean) / standardDeviation : expense.amount > mean ? Infinity : 0;
+  const q1 = quantile(amounts, 0.25);
+  const q3 = quantile(amounts, 0.75);
+  const median = quantile(amounts, 0.5);
+
+  const isAnomalous = expense.amount > q3 + 1.5 * (q3 - q1)
+    && zScore > Z_SCORE_LIMIT
+    && expense.amount >= median * MIN_MEDIAN_MULTIPLE;
+  if (!isAnomalous) return { isAnomalous, reasoning: '' };
+
+  const multiple = expense.amount / median;
+  return {
+    isAnomalous,
+    reasoning: `${formatRupees(expense.amount)} is ${multiple >= 10 ? Math.round(multiple) : multiple.toFixed(1)}× your usual ${categoryName} expense of ${formatRupees(median)}.`,
+  };
+};
@@ -0,0 +1,131 @@
+import { Household } from '../types';
+
+export interface Transfer {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number; // in cents
+}
+
+/**
+ * Nets out what each member is owed across household and trip expenses, after settlements.
+ * A positive balance means the member is owed money, a negative one that they owe.
+ * Balances always sum to zero.
+ */
+export const calculateBalances = (household: Household): Map<string, number> => {
+  const balances = new Map<string, number>(household.members.map(m => [m.id, 0]));
+  const adjust = (memberId: string, amount: number) => balances.set(memberId, (balances.get(memberId) || 0) + amount);
+
+  const allExpenses = [...household.expenses, ...household.trips.flatMap(t => t.expenses)];
+  allExpenses.forEach(exp => {
+    // The payer is credited with what the splits cover, so splits that don't add up
+    // to the full amount can't leave money unaccounted for.
+    exp.splits.forEach(split => {
+      if (split.memberId === exp.memberId) return;
+      adjust(exp.memberId, split.amount);
+      adjust(split.memberId, -split.amount);
+    });
+  });
+
+  household.settlements.forEach(s => {
+    adjust(s.fromMemberId, s.amount);
+    adjust(s.toMemberId, -s.amount);
+  });
+
+  return balances;
+};
+
+type Balance = { id: string; amount: number }; // positive when owed, negative when owing
+
+// Beyond this many members with a balance, trying every grouping gets too slow to do on each render.
+const EXACT_SEARCH_LIMIT = 16;
+
+// Settles a group by repeatedly matching its largest debtor with its largest creditor. When no
+// smaller part of the group sums to zero, this takes one transfer fewer than the group has members.
+const settleGroup = (group: Balance[]): Transfer[] => {
+  const debtors = group.filter(b => b.amount < 0).map(b => ({ id: b.id, amount: -b.amount }));
+  const creditors = group.filter(b => b.amount > 0).map(b => ({ ...b }));
+  const transfers: Transfer[] = [];
+
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.amount - a.amount);
+    creditors.sort((a, b) => b.amount - a.amount);
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const amount = Math.min(debtor.amount, creditor.amount);
+
+    transfers.push({ fromMemberId: debtor.id, toMemberId: creditor.id, amount });
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+    if (debtor.amount === 0) debtors.shift();
+    if (creditor.amount === 0) creditors.shift();
+  }
+
+  return transfers;
+};
+
+/**
+ * Splits the balances into as many groups as possible that each sum to zero. Every group settles
+ * within itself, so this gives the fewest transfers. dp[mask] is the most zero-sum groups that the
+ * members in `mask` can be ordered into, counting each point where the running total returns to zero.
+ */
+const splitIntoZeroSumGroups = (balances: Balance[]): Balance[][] => {
+  const size = 1 << balances.length;
+  const sums = new Float64Array(size);
+  const dp = new Int32Array(size);
+  for (let mask = 1; mask < size; mask++) {
+    const lowest = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + balances[lowest].amount;
+    let best = 0;
+    for (let i = 0; i < balances.length; i++) {
+      if (mask & (1 << i)) best = Math.max(best, dp[mask ^ (1 << i)]);
+    }
+    dp[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from everyone to recover an order that achieves the best count, then cut it at each zero.
+  const order: Balance[] = [];
+  for (let mask = size - 1; mask > 0;) {
+    const target = dp[mask] - (sums[mask] === 0 ? 1 : 0);
+    const i = balances.findIndex((_, index) => (mask & (1 << index)) && dp[mask ^ (1 << index)] === target);
+    order.unshift(balances[i]);
+    mask ^= 1 << i;
+  }
+  const groups: Balance[][] = [];
+  let current: Balance[] = [];
+  let total = 0;
+  order.forEach(b => {
+    current.push(b);
+    total += b.amount;
+    if (total === 0) {
+      groups.push(current);
+      current = [];
+    }
+  });
+  return current.length > 0 ? [...groups, current] : groups;
+};
+
+// For large groups: a best-effort split that only takes out debts and credits of exactly equal amounts.
+const pairEqualAmounts = (balances: Balance[]): Balance[][] => {
+  const rest = [...balances];
+  const pairs: Balance[][] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const match = rest.findIndex((b, j) => j > i && b.amount === -rest[i].amount);
+    if (match < 0) continue;
+    pairs.push([rest[i], rest[match]]);
+    rest.splice(match, 1);
+    rest.splice(i--, 1);
+  }
+  return [...pairs, rest];
+};
+
+/**
+ * Suggests the fewest transfers that settle every balance. Members are split into groups that settle
+ * among themselves, and each group takes one transfer fewer than its size. The split is exact for up
+ * to 16 members with a balance; beyond that only equal debts and credits are paired up first, which
+ * may occasionally use more transfers than necessary.
+ */
+export const suggestTransfers = (balances: Map<string, number>): Transfer[] => {
+  const nonZero = [...balances].filter(([, b]) => b !== 0).map(([id, amount]) => ({ id, amount }));
+  const groups = nonZero.length <= EXACT_SEARCH_LIMIT ? splitIntoZeroSumGroups(nonZero) : pairEqualAmounts(nonZero);
+  return groups.flatMap(settleGroup);
+};
@@ -0,0 +1,35 @@
+import { Household } from '../types';
+
+export interface MonthlyCashFlow {
+  label: string; // e.g. "Sep 2024"
+  income: number; // in cents
+  spending: number; // in cents
+  net: number; // in cents, negative when more went out than came in
+}
+
+/**
+ * Totals recorded income against spending for each of the last `monthCount` months, oldest first.
+ * Spending includes trip expenses; settlements between members are neither income nor spending.
+ */
+export const getMonthlyCashFlow = (household: Household, monthCount = 6): MonthlyCashFlow[] => {
+  const now = new Date();
+  const allExpenses = [...household.expenses, ...household.trips.flatMap(t => t.expenses)];
+
+  return Array.from({ length: monthCount }, (_, i) => {
+    const month = new Date(now.getFullYear(), now.getMonth() - (monthCount - 1 - i), 1);
+    const isInMonth = (date: string) => {
+      const d = new Date(date);
+      return d.getFullYear() === month.getFullYear() && d.getMonth() === month.getMonth();
+    };
+
+    const income = household.incomes.filter(inc => isInMonth(inc.date)).reduce((sum, inc) => sum + inc.amount, 0);
+    const spending = allExpenses.filter(exp => isInMonth(exp.date)).reduce((sum, exp) => sum + exp.amount, 0);
+
+    return {
+      label: month.toLocaleDateString('en-GB', { month: 'short', year: 'numeric' }),
+      income,
+      spending,
+      net: income - spending,
+    };
+  });
+};
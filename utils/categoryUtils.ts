@@ -0,0 +1,56 @@
+import { Category, Expense } from '../types';
+
+// Returns the category and all of its sub-categories, at any depth.
+export const getCategoryWithDescendantIds = (categoryId: string, categories: Category[]): string[] => {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter(c => c.parentId === ids[i] && !ids.includes(c.id))
+      .forEach(c => ids.push(c.id));
+  }
+  return ids;
+};
+
+// Returns the category's parents, closest first.
+export const getAncestorIds = (categoryId: string, categories: Category[]): string[] => {
+  const ancestors: string[] = [];
+  let current = categories.find(c => c.id === categoryId);
+  while (current?.parentId && !ancestors.includes(current.parentId)) {
+    ancestors.push(current.parentId);
+    current = categories.find(c => c.id === current!.parentId);
+  }
+  return ancestors;
+};
+
+// Formats a category as its full path, e.g. "Transport > Fuel".
+export const getCategoryLabel = (categoryId: string, categories: Category[]): string => {
+  const category = categories.find(c => c.id === categoryId);
+  if (!category) return 'Uncategorized';
+  const parentNames = getAncestorIds(categoryId, categories)
+    .reverse()
+    .map(id => categories.find(c => c.id === id)?.name)
+    .filter(Boolean);
+  return [...parentNames, category.name].join(' > ');
+};
+
+// Orders categories so that each parent is directly followed by its sub-categories.
+export const sortCategoriesHierarchically = (categories: Category[]): Array<Category & { depth: number }> => {
+  const ids = new Set(categories.map(c => c.id));
+  const sorted: Array<Category & { depth: number }> = [];
+  const visit = (category: Category, depth: number) => {
+    if (sorted.some(c => c.id === category.id)) return;
+    sorted.push({ ...category, depth });
+    categories.filter(c => c.parentId === category.id).forEach(child => visit(child, depth + 1));
+  };
+  // Categories whose parent is missing (e.g. archived and filtered out) are treated as top-level.
+  categories.filter(c => !c.parentId || !ids.has(c.parentId)).forEach(c => visit(c, 0));
+  return sorted;
+};
+
+// Total spent in a category, with spending in its sub-categories rolled up into it.
+export const getRolledUpSpent = (expenses: Expense[], categoryId: string, categories: Category[]): number => {
+  const ids = getCategoryWithDescendantIds(categoryId, categories);
+  return expenses
+    .filter(e => ids.includes(e.categoryId))
+    .reduce((sum, e) => sum + e.amount, 0);
+};
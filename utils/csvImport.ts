@@ -0,0 +1,256 @@
+import { BankProfile, CsvColumnMapping, CsvDateFormat, ParsedTransaction } from '../types';
+
+export type StatementTransaction = Omit<ParsedTransaction, 'categoryId' | 'memberId'>;
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Picks the delimiter that splits the first few lines into the most consistent number of columns.
+const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(l => l.split(delimiter).length - 1);
+    const maxCount = Math.max(0, ...counts);
+    const consistent = counts.filter(c => c === maxCount).length;
+    const score = maxCount > 0 ? consistent * maxCount : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Splits CSV text into rows of trimmed cells. Handles quoted cells containing delimiters,
+ * newlines and doubled quotes, and detects comma, semicolon, tab or pipe delimiters.
+ * Blank lines are dropped.
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(c => c !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Reads a date in the given day/month/year order, e.g. "05/09/2024", "5-Sep-24" or "2024.09.05".
+ * Month names are accepted in place of month numbers. Returns "YYYY-MM-DD", or null if invalid.
+ */
+export const parseStatementDate = (value: string, format: CsvDateFormat): string | null => {
+  // Drop any time part, e.g. "05/09/2024 14:32:10".
+  const parts = value.trim().split(/\s+\d{1,2}:\d{2}/)[0].split(/[\/\-. ]+/).filter(Boolean);
+  if (parts.length !== 3) return null;
+
+  const order = format === 'DMY' ? [0, 1, 2] : format === 'MDY' ? [1, 0, 2] : [2, 1, 0];
+  const dayPart = parts[order[0]];
+  const monthPart = parts[order[1]];
+  const yearPart = parts[order[2]];
+
+  const day = parseInt(dayPart, 10);
+  const monthIndex = MONTH_NAMES.indexOf(monthPart.slice(0, 3).toLowerCase());
+  const month = monthIndex >= 0 ? monthIndex + 1 : parseInt(monthPart, 10);
+  let year = parseInt(yearPart, 10);
+  if (yearPart.length === 2) year += 2000;
+
+  if ([day, month, year].some(isNaN) || !/^\d+$/.test(dayPart) || !/^\d+$/.test(yearPart)) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Reads a statement amount such as "₹1,23,456.78", "(450.00)", "-450" or "450.00 Dr".
+ * Parentheses, a minus sign or a "Dr" suffix make it negative. Returns null if it isn't a number.
+ */
+export const parseStatementAmount = (value: string): number | null => {
+  let text = value.trim();
+  if (!text) return null;
+  let sign = 1;
+  if (/\bdr\.?$/i.test(text)) {
+    sign = -1;
+    text = text.replace(/\bdr\.?$/i, '');
+  } else {
+    text = text.replace(/\bcr\.?$/i, '');
+  }
+  if (/^\(.*\)$/.test(text.trim())) {
+    sign = -sign;
+    text = text.trim().slice(1, -1);
+  }
+  text = text.replace(/[^\d.\-]/g, '');
+  if (text.startsWith('-')) {
+    sign = -sign;
+    text = text.slice(1);
+  }
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  return sign * parseFloat(text);
+};
+
+export interface CsvMappingResult {
+  transactions: StatementTransaction[];
+  skippedRows: number[]; // 1-based line numbers of rows that couldn't be read
+}
+
+/**
+ * Turns CSV rows into transactions using a column mapping. Rows whose date or amount
+ * can't be read are reported rather than silently dropped.
+ */
+export const applyCsvMapping = (rows: string[][], mapping: CsvColumnMapping): CsvMappingResult => {
+  const dataRows = rows.slice(mapping.skipHeaderRows, rows.length - mapping.skipFooterRows);
+  const transactions: StatementTransaction[] = [];
+  const skippedRows: number[] = [];
+
+  dataRows.forEach((row, index) => {
+    const lineNumber = mapping.skipHeaderRows + index + 1;
+    const date = parseStatementDate(row[mapping.dateColumn] || '', mapping.dateFormat);
+    const description = (row[mapping.descriptionColumn] || '').replace(/\s+/g, ' ').trim();
+
+    let signedAmount: number | null = null;
+    if (mapping.amountMode === 'signed') {
+      signedAmount = parseStatementAmount(row[mapping.amountColumn] || '');
+    } else {
+      const debit = parseStatementAmount(row[mapping.debitColumn] || '');
+      const credit = parseStatementAmount(row[mapping.creditColumn] || '');
+      if (debit) signedAmount = -Math.abs(debit);
+      else if (credit) signedAmount = Math.abs(credit);
+    }
+
+    if (!date || signedAmount === null || signedAmount === 0) {
+      skippedRows.push(lineNumber);
+      return;
+    }
+    const reference = row[mapping.referenceColumn ?? -1]?.trim();
+    const balance = parseStatementAmount(row[mapping.balanceColumn ?? -1] || '');
+    transactions.push({
+      date,
+      description: description || 'Unknown transaction',
+      amount: Math.abs(signedAmount),
+      type: signedAmount < 0 ? 'debit' : 'credit',
+      metadata: {
+        reference: reference || undefined,
+        balance: balance === null ? undefined : Math.round(balance * 100),
+        rawLine: row.join(', '),
+      },
+    });
+  });
+
+  return { transactions, skippedRows };
+};
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Identifies a bank's export format by its column titles.
+export const getHeaderSignature = (rows: string[][], skipHeaderRows: number): string => {
+  const headerRow = skipHeaderRows > 0 ? rows[skipHeaderRows - 1] : undefined;
+  return headerRow ? headerRow.map(normalizeHeader).join('|') : '';
+};
+
+// Finds a saved profile whose column titles appear in the file, allowing for a different preamble length.
+export const detectBankProfile = (rows: string[][], profiles: BankProfile[]): BankProfile | undefined => {
+  const signatures = rows.slice(0, 30).map(row => row.map(normalizeHeader).join('|'));
+  for (const profile of profiles) {
+    if (!profile.headerSignature) continue;
+    const headerIndex = signatures.indexOf(profile.headerSignature);
+    if (headerIndex >= 0) {
+      return { ...profile, mapping: { ...profile.mapping, skipHeaderRows: headerIndex + 1 } };
+    }
+  }
+  return undefined;
+};
+
+const HEADER_PATTERNS = {
+  date: /^(txn|transaction|value|posting)?date$|^date/,
+  description: /narration|description|particulars|details|remarks|payee|merchant/,
+  debit: /debit|withdrawal|paidout|dr$/,
+  credit: /credit|deposit|paidin|cr$/,
+  amount: /amount|amt/,
+  reference: /ref|chq|cheque|utr/,
+  balance: /balance|bal$/,
+};
+
+/**
+ * Guesses a mapping from the column titles, for the user to confirm. The title row is taken
+ * to be the first row that mentions both a date and a description-like column.
+ */
+export const guessCsvMapping = (rows: string[][]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {
+    skipHeaderRows: 0,
+    skipFooterRows: 0,
+    dateColumn: 0,
+    dateFormat: 'DMY',
+    descriptionColumn: 1,
+    amountMode: 'signed',
+    amountColumn: 2,
+    debitColumn: -1,
+    creditColumn: -1,
+    referenceColumn: -1,
+    balanceColumn: -1,
+  };
+
+  const headerIndex = rows.slice(0, 30).findIndex(row => {
+    const cells = row.map(normalizeHeader);
+    return cells.some(c => HEADER_PATTERNS.date.test(c)) && cells.some(c => HEADER_PATTERNS.description.test(c));
+  });
+  if (headerIndex < 0) return mapping;
+
+  const cells = rows[headerIndex].map(normalizeHeader);
+  const find = (pattern: RegExp) => cells.findIndex(c => pattern.test(c));
+  mapping.skipHeaderRows = headerIndex + 1;
+  mapping.dateColumn = find(HEADER_PATTERNS.date);
+  mapping.descriptionColumn = find(HEADER_PATTERNS.description);
+  mapping.referenceColumn = find(HEADER_PATTERNS.reference);
+  mapping.balanceColumn = find(HEADER_PATTERNS.balance);
+
+  const debitColumn = find(HEADER_PATTERNS.debit);
+  const creditColumn = find(HEADER_PATTERNS.credit);
+  if (debitColumn >= 0 && creditColumn >= 0 && debitColumn !== creditColumn) {
+    mapping.amountMode = 'debitCredit';
+    mapping.debitColumn = debitColumn;
+    mapping.creditColumn = creditColumn;
+    mapping.amountColumn = -1;
+  } else {
+    mapping.amountColumn = find(HEADER_PATTERNS.amount);
+  }
+
+  // ISO dates are unambiguous, so check the first data row for them.
+  const firstDate = rows[headerIndex + 1]?.[mapping.dateColumn] || '';
+  if (/^\d{4}[\/\-.]/.test(firstDate)) mapping.dateFormat = 'YMD';
+
+  return mapping;
+};
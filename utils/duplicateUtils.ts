@@ -0,0 +1,84 @@
+import { Expense } from '../types';
+import { StatementTransaction } from './csvImport';
+
+const DATE_WINDOW_DAYS = 3;
+const MIN_SIMILARITY = 0.4;
+
+// Words that banks add to narrations and that say nothing about the merchant.
+const NOISE_WORDS = new Set([
+  'upi', 'pos', 'neft', 'imps', 'rtgs', 'ach', 'nach', 'ecom', 'txn', 'ref', 'payment', 'paid', 'purchase',
+  'debit', 'card', 'the', 'and', 'for', 'from', 'via', 'pvt', 'ltd', 'india', 'www', 'com',
+]);
+
+const toWords = (description: string): string[] =>
+  (description.toLowerCase().match(/[a-z]{3,}/g) || []).filter(w => !NOISE_WORDS.has(w));
+
+const toBigrams = (text: string): string[] => {
+  const compact = text.toLowerCase().replace(/[^a-z]/g, '');
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2));
+};
+
+/**
+ * Scores how alike two descriptions are, from 0 to 1. Takes the better of shared words, which
+ * suits a typed "Zomato dinner" against "UPI/ZOMATO/123456", and shared letter pairs, which
+ * tolerates truncated narrations such as "SWIGGY INSTAMAR" against "Swiggy Instamart".
+ */
+export const getDescriptionSimilarity = (a: string, b: string): number => {
+  const wordsA = new Set(toWords(a));
+  const wordsB = new Set(toWords(b));
+  const sharedWords = [...wordsA].filter(w => wordsB.has(w)).length;
+  const wordScore = wordsA.size && wordsB.size ? sharedWords / Math.min(wordsA.size, wordsB.size) : 0;
+
+  const bigramsA = toBigrams(toWords(a).join(''));
+  const bigramsB = toBigrams(toWords(b).join(''));
+  const remaining = [...bigramsB];
+  let sharedBigrams = 0;
+  bigramsA.forEach(bigram => {
+    const index = remaining.indexOf(bigram);
+    if (index >= 0) {
+      sharedBigrams++;
+      remaining.splice(index, 1);
+    }
+  });
+  const bigramScore = bigramsA.length + bigramsB.length > 0 ? (2 * sharedBigrams) / (bigramsA.length + bigramsB.length) : 0;
+
+  return Math.max(wordScore, bigramScore);
+};
+
+const daysBetween = (a: string, b: string) =>
+  Math.abs(Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / 86_400_000;
+
+/**
+ * Finds the existing expense each statement debit most likely duplicates: the same amount to the
+ * cent, dated within a few days, with a similar description. Each expense is matched at most once,
+ * so two identical charges on a statement are not both flagged against a single recorded one.
+ * Credits are never matched. Returns a map from transaction index to the matched expense.
+ */
+export const findLikelyDuplicates = (transactions: StatementTransaction[], expenses: Expense[]): Map<number, Expense> => {
+  const matches = new Map<number, Expense>();
+  const usedExpenseIds = new Set<string>();
+
+  transactions.forEach((t, index) => {
+    if (t.type !== 'debit') return;
+    const amountInCents = Math.round(t.amount * 100);
+
+    let best: { expense: Expense; similarity: number; days: number } | undefined;
+    for (const expense of expenses) {
+      if (expense.amount !== amountInCents || usedExpenseIds.has(expense.id)) continue;
+      const days = daysBetween(t.date, expense.date);
+      if (isNaN(days) || days > DATE_WINDOW_DAYS) continue;
+      const similarity = getDescriptionSimilarity(t.description, expense.description);
+      if (similarity < MIN_SIMILARITY) continue;
+      if (!best || similarity > best.similarity || (similarity === best.similarity && days < best.days)) {
+        best = { expense, similarity, days };
+      }
+    }
+
+    if (best) {
+      matches.set(index, best.expense);
+      usedExpenseIds.add(best.expense.id);
+    }
+  });
+
+  return matches;
+};
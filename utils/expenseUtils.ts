@@ -1,7 +1,8 @@
-import { Rule, Category } from '../types';
+import { Rule, Category, IncomeSource } from '../types';
 
-export const suggestCategory = (description: string, rules: Rule[], categories: Category[]): string | undefined => {
-  const lowercasedDescription = description.toLowerCase();
+// Imported rows can also pass the statement's raw narration, which often names the merchant when the description doesn't.
+export const suggestCategory = (description: string, rules: Rule[], categories: Category[], rawNarration?: string): string | undefined => {
+  const lowercasedDescription = [description, rawNarration].filter(Boolean).join(' ').toLowerCase();
   for (const rule of rules) {
     if (lowercasedDescription.includes(rule.keyword.toLowerCase())) {
       return rule.categoryId;
@@ -9,3 +10,18 @@ export const suggestCategory = (description: string, rules: Rule[], categories:
   }
   return undefined;
 };
+
+// Guesses the kind of income from a credit's narration, e.g. "NEFT SALARY OCT" or "UPI CASHBACK".
+export const suggestIncomeSource = (description: string): IncomeSource => {
+  const text = description.toLowerCase();
+  if (/salary|payroll|\bsal\b/.test(text)) return 'salary';
+  if (/refund|reversal|reversed|\brev\b/.test(text)) return 'refund';
+  if (/interest|\bint\.?\s*(pd|paid|cr)\b/.test(text)) return 'interest';
+  if (/cashback|cash back|reward/.test(text)) return 'cashback';
+  return 'other';
+};
+
+// Archived categories keep their history but are hidden from pickers, unless already selected.
+export const getSelectableCategories = (categories: Category[], selectedId?: string): Category[] => {
+  return categories.filter(c => !c.isArchived || c.id === selectedId);
+};
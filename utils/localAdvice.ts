@@ -0,0 +1,160 @@
+import { BudgetSuggestion, Category, Expense, Household, SavingsSuggestion } from '../types';
+import { getCategoryLabel, getRolledUpSpent, sortCategoriesHierarchically } from './categoryUtils';
+
+// Categories a family can't easily do without, matched by name. Everything else counts as a want.
+const NEEDS_PATTERN = /\b(grocer|util|bill|rent|hous|transport|fuel|health|medic|insur|educat|school|emi|loan)/i;
+const SAVINGS_PATTERN = /\b(sav|invest)/i;
+
+const formatRupees = (amountInCents: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(amountInCents / 100);
+
+const isInMonth = (date: string, month: Date) => {
+  const d = new Date(date);
+  return d.getFullYear() === month.getFullYear() && d.getMonth() === month.getMonth();
+};
+
+const sumAmounts = (expenses: Expense[]) => expenses.reduce((sum, e) => sum + e.amount, 0);
+
+/**
+ * The monthly report without AI: the same summary table, insights and suggestions sections the AI
+ * writes, filled in from this month's spending against the budgets.
+ */
+export const buildLocalSpendingReport = (household: Household, now = new Date()): string => {
+  const { categories, budgets } = household;
+  const thisMonth = household.expenses.filter(e => isInMonth(e.date, now));
+  const lastMonth = household.expenses.filter(e => isInMonth(e.date, new Date(now.getFullYear(), now.getMonth() - 1, 1)));
+
+  const rows = sortCategoriesHierarchically(categories)
+    .map(c => ({ id: c.id, label: getCategoryLabel(c.id, categories), spent: getRolledUpSpent(thisMonth, c.id, categories), budget: budgets.find(b => b.categoryId === c.id)?.amount }))
+    .filter(r => r.spent > 0 || r.budget);
+  const table = [
+    '| Category | Budget | Spent | Difference |',
+    '| --- | --- | --- | --- |',
+    ...rows.map(r => {
+      const difference = r.budget === undefined ? '—' : `${r.budget < r.spent ? '-' : '+'}${formatRupees(Math.abs(r.budget - r.spent))}`;
+      return `| ${r.label} | ${r.budget === undefined ? '—' : formatRupees(r.budget)} | ${formatRupees(r.spent)} | ${difference} |`;
+    }),
+  ];
+
+  const totalSpent = sumAmounts(thisMonth);
+  const totalLastMonth = sumAmounts(lastMonth);
+  // Top-level rows only, so a sub-category isn't counted again inside its parent.
+  const topLevel = rows.filter(r => !categories.find(c => c.id === r.id)?.parentId);
+  const largest = [...topLevel].sort((a, b) => b.spent - a.spent)[0];
+  const overspent = rows.filter(r => r.budget !== undefined && r.spent > r.budget).sort((a, b) => (b.spent - b.budget!) - (a.spent - a.budget!));
+  const underBudget = rows.filter(r => r.budget !== undefined && r.spent <= r.budget);
+
+  const insights: string[] = [];
+  if (totalSpent === 0) {
+    insights.push('No expenses have been recorded this month yet.');
+  } else {
+    insights.push(`You've spent ${formatRupees(totalSpent)} so far this month${totalLastMonth > 0 ? `, ${totalSpent > totalLastMonth ? 'up' : 'down'} ${Math.abs(Math.round((totalSpent - totalLastMonth) / totalLastMonth * 100))}% on last month's ${formatRupees(totalLastMonth)}` : ''}.`);
+    if (largest?.spent > 0) insights.push(`${largest.label} is your largest category at ${formatRupees(largest.spent)}, ${Math.round(largest.spent / totalSpent * 100)}% of the total.`);
+  }
+  if (overspent.length > 0) {
+    insights.push(`Over budget in ${overspent.map(r => `${r.label} (by ${formatRupees(r.spent - r.budget!)})`).join(', ')}.`);
+  } else if (underBudget.length > 0) {
+    insights.push('Every budgeted category is within its limit. Well done!');
+  }
+
+  const suggestions = overspent.slice(0, 2).map(r =>
+    `Bring ${r.label} back to its ${formatRupees(r.budget!)} budget next month, which means about ${formatRupees(r.spent - r.budget!)} less.`);
+  if (largest?.spent > 0 && largest.budget === undefined) {
+    suggestions.push(`Set a budget for ${largest.label}, your largest category, so you can see when it runs ahead.`);
+  }
+  const leftOver = underBudget.reduce((sum, r) => sum + r.budget! - r.spent, 0);
+  if (leftOver > 0) suggestions.push(`Move the ${formatRupees(leftOver)} still left in your budgets into a savings goal at the end of the month.`);
+  if (suggestions.length === 0) suggestions.push('Set monthly budgets for your main categories so future reports can compare against them.');
+
+  return [
+    ...(rows.length > 0 ? table : ['No spending or budgets to summarise this month.']),
+    '',
+    '### Key Insights',
+    ...insights.map(i => `* ${i}`),
+    '',
+    '### Actionable Suggestions',
+    ...suggestions.slice(0, 3).map(s => `* ${s}`),
+  ].join('\n');
+};
+
+/**
+ * Budget suggestions without AI: each category's average monthly spending over the last `monthCount`
+ * complete months, rounded up to the next ₹100. Months before the first expense aren't averaged in.
+ */
+export const suggestBudgetsFromHistory = (expenses: Expense[], categories: Category[], monthCount = 3, now = new Date()): BudgetSuggestion[] => {
+  const periodStart = new Date(now.getFullYear(), now.getMonth() - monthCount, 1);
+  const periodEnd = new Date(now.getFullYear(), now.getMonth(), 1);
+  const inPeriod = expenses.filter(e => new Date(e.date) >= periodStart && new Date(e.date) < periodEnd);
+  if (inPeriod.length === 0) return [];
+
+  const firstDate = new Date(Math.min(...expenses.map(e => new Date(e.date).getTime())));
+  const firstMonth = new Date(firstDate.getFullYear(), firstDate.getMonth(), 1);
+  const monthsCovered = Math.max(1, Math.min(monthCount, (periodEnd.getFullYear() - firstMonth.getFullYear()) * 12 + periodEnd.getMonth() - firstMonth.getMonth()));
+
+  return categories.flatMap(c => {
+    const average = sumAmounts(inPeriod.filter(e => e.categoryId === c.id)) / monthsCovered / 100;
+    if (average === 0) return [];
+    return [{
+      categoryId: c.id,
+      amount: Math.ceil(average / 100) * 100,
+      reasoning: `You spent an average of ${formatRupees(average * 100)} a month here over the last ${monthsCovered === 1 ? 'month' : `${monthsCovered} months`}.`,
+    }];
+  });
+};
+
+/**
+ * Budget suggestions from income without AI, by the 50/30/20 rule: half for needs, 30% for wants and
+ * 20% for savings, each split evenly across its categories and rounded down to ₹100. The savings share
+ * stays unallocated when there's no savings category; an empty needs or wants group gives its share
+ * to the other, so the total never exceeds the income.
+ */
+export const suggestBudgetsFromIncome = (monthlyIncome: number, categories: Category[]): BudgetSuggestion[] => {
+  const savings = categories.filter(c => SAVINGS_PATTERN.test(c.name));
+  const needs = categories.filter(c => !savings.includes(c) && NEEDS_PATTERN.test(c.name));
+  const wants = categories.filter(c => !savings.includes(c) && !needs.includes(c));
+  if (needs.length === 0 && wants.length === 0) return [];
+  const groups = [
+    { categories: needs, share: wants.length > 0 ? 0.5 : 0.8, label: 'needs' },
+    { categories: wants, share: needs.length > 0 ? 0.3 : 0.8, label: 'wants' },
+    { categories: savings, share: 0.2, label: 'savings' },
+  ];
+
+  const incomeInRupees = monthlyIncome / 100;
+  return groups.flatMap(group => group.categories.map(c => ({
+    categoryId: c.id,
+    amount: Math.floor(incomeInRupees * group.share / group.categories.length / 100) * 100,
+    reasoning: `An equal part of the ${Math.round(group.share * 100)}% of income set aside for ${group.label}.`,
+  })));
+};
+
+/**
+ * Savings tips without AI, from the last 60 days. A category running over budget can save its
+ * overspend, and any other want is offered a 15% cut. The three biggest savings are kept.
+ */
+export const suggestSavingsLocally = (household: Household, now = new Date()): SavingsSuggestion[] => {
+  const recent = household.expenses.filter(e => new Date(e.date) > new Date(now.getTime() - 60 * 86400000));
+  const candidates = household.categories.flatMap(c => {
+    const monthly = sumAmounts(recent.filter(e => e.categoryId === c.id)) / 2;
+    if (monthly === 0) return [];
+    const budget = household.budgets.find(b => b.categoryId === c.id)?.amount;
+    if (budget !== undefined && monthly > budget) {
+      return [{
+        categoryName: c.name,
+        reasoning: `Spending here averages ${formatRupees(monthly)} a month, ${Math.round((monthly - budget) / budget * 100)}% over its ${formatRupees(budget)} budget.`,
+        suggestion: `Track ${c.name} weekly and stop at about ${formatRupees(budget / 4.33)} a week to land back on budget.`,
+        potentialSavings: Math.round((monthly - budget) / 100 / 10) * 10,
+      }];
+    }
+    if (NEEDS_PATTERN.test(c.name) || SAVINGS_PATTERN.test(c.name)) return [];
+    return [{
+      categoryName: c.name,
+      reasoning: `This is non-essential spending averaging ${formatRupees(monthly)} a month.`,
+      suggestion: `Set a weekly cap of ${formatRupees(monthly * 0.85 / 4.33)} on ${c.name} to cut it by around 15%.`,
+      potentialSavings: Math.round(monthly * 0.15 / 100 / 10) * 10,
+    }];
+  });
+  return candidates
+    .filter(s => s.potentialSavings > 0)
+    .sort((a, b) => b.potentialSavings - a.potentialSavings)
+    .slice(0, 3);
+};
@@ -0,0 +1,110 @@
+import { ReconciledPeriod, StatementDetails } from '../types';
+import { StatementTransaction } from './csvImport';
+
+export interface StatementReconciliation {
+  openingBalance: number; // in cents
+  closingBalance: number; // in cents, as printed on the statement
+  credits: number; // in cents
+  debits: number; // in cents
+  difference: number; // in cents, the printed closing balance minus the one the rows add up to; 0 when it reconciles
+}
+
+const toSignedCents = (t: StatementTransaction) => Math.round(t.amount * 100) * (t.type === 'debit' ? -1 : 1);
+
+/**
+ * Checks that the parsed rows take the statement from its opening to its closing balance.
+ * A difference means rows are missing, duplicated or misread. Returns null when the statement
+ * didn't show both balances.
+ */
+export const reconcileStatement = (transactions: StatementTransaction[], details: StatementDetails): StatementReconciliation | null => {
+  if (details.openingBalance === undefined || details.closingBalance === undefined) return null;
+  const credits = transactions.filter(t => t.type === 'credit').reduce((sum, t) => sum + Math.round(t.amount * 100), 0);
+  const debits = transactions.filter(t => t.type === 'debit').reduce((sum, t) => sum + Math.round(t.amount * 100), 0);
+  return {
+    openingBalance: details.openingBalance,
+    closingBalance: details.closingBalance,
+    credits,
+    debits,
+    difference: details.closingBalance - (details.openingBalance + credits - debits),
+  };
+};
+
+// Statements list rows oldest or newest first; whichever order the balances follow more often is taken.
+const isNewestFirst = (rows: { transaction: StatementTransaction; balance: number }[]): boolean => {
+  let oldestFirstSteps = 0;
+  let newestFirstSteps = 0;
+  for (let i = 1; i < rows.length; i++) {
+    if (rows[i - 1].balance + toSignedCents(rows[i].transaction) === rows[i].balance) oldestFirstSteps++;
+    if (rows[i].balance + toSignedCents(rows[i - 1].transaction) === rows[i - 1].balance) newestFirstSteps++;
+  }
+  return newestFirstSteps > oldestFirstSteps;
+};
+
+/**
+ * Reads opening and closing balances from a running balance column, and finds the rows whose
+ * balance doesn't follow from the row before, which is where a row is missing or misread.
+ * Returns null when the rows carry no balances.
+ */
+export const checkRunningBalances = (transactions: StatementTransaction[]): { openingBalance: number; closingBalance: number; breaks: Set<number> } | null => {
+  const rows = transactions
+    .map((transaction, index) => ({ transaction, index, balance: transaction.metadata?.balance }))
+    .filter((r): r is { transaction: StatementTransaction; index: number; balance: number } => r.balance !== undefined);
+  if (rows.length === 0 || rows.length < transactions.length) return null;
+
+  const chronological = isNewestFirst(rows) ? [...rows].reverse() : rows;
+  const breaks = new Set<number>();
+  for (let i = 1; i < chronological.length; i++) {
+    if (chronological[i - 1].balance + toSignedCents(chronological[i].transaction) !== chronological[i].balance) {
+      breaks.add(chronological[i].index);
+    }
+  }
+
+  const first = chronological[0];
+  return {
+    openingBalance: first.balance - toSignedCents(first.transaction),
+    closingBalance: chronological[chronological.length - 1].balance,
+    breaks,
+  };
+};
+
+export interface VerifiedMonth {
+  month: string; // "YYYY-MM"
+  label: string; // e.g. "Sep 2024"
+  isComplete: boolean; // false when reconciled statements cover only part of the month
+}
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+/**
+ * Lists the months each account has reconciled statements for, oldest first, keyed by account number.
+ * Statement periods rarely line up with calendar months, so a month is complete only when the
+ * periods together cover every day of it.
+ */
+export const getVerifiedMonths = (periods: ReconciledPeriod[]): Map<string, VerifiedMonth[]> => {
+  const coveredDays = new Map<string, Set<string>>();
+  periods.forEach(period => {
+    const days = coveredDays.get(period.accountNumber) || new Set<string>();
+    for (let day = period.periodStart; day <= period.periodEnd; day = addDays(day, 1)) days.add(day);
+    coveredDays.set(period.accountNumber, days);
+  });
+
+  const result = new Map<string, VerifiedMonth[]>();
+  coveredDays.forEach((days, accountNumber) => {
+    const months = [...new Set([...days].map(day => day.slice(0, 7)))].sort();
+    result.set(accountNumber, months.map(month => {
+      const [year, monthNumber] = month.split('-').map(Number);
+      const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+      const covered = [...days].filter(day => day.startsWith(month)).length;
+      return {
+        month,
+        label: new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString('en-GB', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+        isComplete: covered === daysInMonth,
+      };
+    }));
+  });
+  return result;
+};
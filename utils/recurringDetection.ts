@@ -0,0 +1,74 @@
+import { Expense, Subscription, SuggestedSubscription } from '../types';
+
+const DAY = 86400000;
+
+// The gaps between payments that count as each frequency, in days.
+const FREQUENCY_WINDOWS: { frequency: Subscription['frequency']; days: number; min: number; max: number }[] = [
+  { frequency: 'weekly', days: 7, min: 5, max: 9 },
+  { frequency: 'monthly', days: 30, min: 26, max: 35 },
+  { frequency: 'yearly', days: 365, min: 350, max: 380 },
+];
+
+const AMOUNT_TOLERANCE = 0.15; // payments further than this from the typical amount are something else
+
+// "NETFLIX.COM 8834*221" and "Netflix.com 9912" share the key "netflix com".
+const getPaymentKey = (description: string) =>
+  description.toLowerCase().replace(/[^a-z\s]+/g, ' ').split(/\s+/).filter(w => w.length > 1).slice(0, 3).join(' ');
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const mostCommon = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * Finds recurring payments without AI. Expenses are grouped by the words of their description, the
+ * group is narrowed to payments close to its typical amount, and the gaps between those payments
+ * are clustered into weekly, monthly or yearly. Most gaps have to fall in one cluster, and the
+ * payment must not have lapsed, i.e. the last one is no more than two periods old.
+ */
+export const detectRecurringPaymentsLocally = (expenses: Expense[], subscriptions: Subscription[], now = new Date()): SuggestedSubscription[] => {
+  const trackedKeys = new Set(subscriptions.map(s => getPaymentKey(s.description)));
+  const groups = new Map<string, Expense[]>();
+  expenses.forEach(e => {
+    const key = getPaymentKey(e.description);
+    if (!key || trackedKeys.has(key)) return;
+    groups.set(key, [...(groups.get(key) || []), e]);
+  });
+
+  const found: SuggestedSubscription[] = [];
+  groups.forEach(group => {
+    const typicalAmount = median(group.map(e => e.amount));
+    const payments = group
+      .filter(e => Math.abs(e.amount - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    // Two payments on the same day are one payment split up, not a very short interval.
+    const dates = [...new Set(payments.map(e => e.date.split('T')[0]))].map(d => new Date(d).getTime());
+    const gaps = dates.slice(1).map((date, i) => (date - dates[i]) / DAY);
+    if (gaps.length === 0) return;
+
+    const best = FREQUENCY_WINDOWS
+      .map(w => ({ ...w, matching: gaps.filter(g => g >= w.min && g <= w.max).length }))
+      .sort((a, b) => b.matching - a.matching)[0];
+    const neededMatches = best.frequency === 'yearly' ? 1 : 2; // a yearly charge seen twice is already two years of history
+    if (best.matching < neededMatches || best.matching < gaps.length * 2 / 3) return;
+
+    const lastPayment = payments[payments.length - 1];
+    if (now.getTime() - new Date(lastPayment.date).getTime() > best.days * 2 * DAY) return;
+
+    found.push({
+      description: lastPayment.description.trim(),
+      amount: Math.round(median(payments.map(e => e.amount))) / 100,
+      frequency: best.frequency,
+      categoryId: mostCommon(payments.map(e => e.categoryId)),
+      lastPaymentDate: lastPayment.date.split('T')[0],
+    });
+  });
+  return found.sort((a, b) => b.lastPaymentDate.localeCompare(a.lastPaymentDate));
+};
@@ -0,0 +1,111 @@
+import { Category, Expense, Member } from '../types';
+import { getCategoryWithDescendantIds } from './categoryUtils';
+
+export interface ExpenseSearchQuery {
+  terms: string[]; // free text, matched against descriptions and notes
+  minAmount?: number; // in cents, inclusive
+  maxAmount?: number; // in cents, inclusive
+  before?: string; // YYYY-MM-DD, exclusive
+  after?: string; // YYYY-MM-DD, exclusive
+  category?: string;
+  paidBy?: string;
+  trip?: string;
+}
+
+// Splits on whitespace, keeping "quoted phrases" (including cat:"Eating Out") together.
+const tokenize = (query: string): string[] => {
+  return (query.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map(token => token.replace(/"/g, ''));
+};
+
+const isValidDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+/**
+ * Parses the ExpenseTracker search box, e.g. `swiggy amount>500 cat:Dining before:2024-09-01`.
+ * Supported operators: amount>, amount>=, amount<, amount<=, amount=, before:, after:, cat:, paid: and trip:.
+ * Amounts are in rupees. Anything that isn't a valid operator is treated as free text.
+ */
+export const parseSearchQuery = (query: string): ExpenseSearchQuery => {
+  const parsed: ExpenseSearchQuery = { terms: [] };
+
+  tokenize(query).forEach(token => {
+    const amountMatch = token.match(/^amount(>=|<=|>|<|=|:)(\d+(?:\.\d{1,2})?)$/i);
+    if (amountMatch) {
+      const [, op, value] = amountMatch;
+      const cents = Math.round(parseFloat(value) * 100);
+      // Strict comparisons are made inclusive by moving one cent.
+      if (op === '>') parsed.minAmount = cents + 1;
+      if (op === '>=') parsed.minAmount = cents;
+      if (op === '<') parsed.maxAmount = cents - 1;
+      if (op === '<=') parsed.maxAmount = cents;
+      if (op === '=' || op === ':') {
+        parsed.minAmount = cents;
+        parsed.maxAmount = cents;
+      }
+      return;
+    }
+
+    const operatorMatch = token.match(/^(before|after|cat|paid|trip):(.+)$/i);
+    if (operatorMatch) {
+      const [, operator, value] = operatorMatch;
+      switch (operator.toLowerCase()) {
+        case 'before':
+          if (isValidDate(value)) { parsed.before = value; return; }
+          break;
+        case 'after':
+          if (isValidDate(value)) { parsed.after = value; return; }
+          break;
+        case 'cat':
+          parsed.category = value;
+          return;
+        case 'paid':
+          parsed.paidBy = value;
+          return;
+        case 'trip':
+          parsed.trip = value;
+          return;
+      }
+    }
+
+    if (token.trim()) parsed.terms.push(token.trim());
+  });
+
+  return parsed;
+};
+
+// Names match case-insensitively by prefix, so "cat:din" finds "Dining".
+const nameMatches = (name: string, search: string) => name.toLowerCase().startsWith(search.toLowerCase());
+
+/**
+ * Applies the structured (non free-text) parts of a search query.
+ * A `cat:` filter also matches sub-categories of every matching category.
+ */
+export const matchesSearchFilters = (
+  expense: Expense,
+  query: ExpenseSearchQuery,
+  context: { categories: Category[]; members: Member[]; tripName?: string }
+): boolean => {
+  if (query.minAmount !== undefined && expense.amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && expense.amount > query.maxAmount) return false;
+
+  const day = expense.date.slice(0, 10);
+  if (query.before && day >= query.before) return false;
+  if (query.after && day <= query.after) return false;
+
+  if (query.category) {
+    const categoryIds = context.categories
+      .filter(c => nameMatches(c.name, query.category!))
+      .flatMap(c => getCategoryWithDescendantIds(c.id, context.categories));
+    if (!categoryIds.includes(expense.categoryId)) return false;
+  }
+
+  if (query.paidBy) {
+    const payer = context.members.find(m => m.id === expense.memberId);
+    if (!payer || !nameMatches(payer.name, query.paidBy)) return false;
+  }
+
+  if (query.trip) {
+    if (!context.tripName || !nameMatches(context.tripName, query.trip)) return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,148 @@
+import { parseStatementAmount, parseStatementDate } from './csvImport';
+
+// One expense or payment from another app's export, with people still named as they were there.
+export interface SharedLedgerRow {
+  date: string; // "YYYY-MM-DD"
+  description: string;
+  category: string; // as named in the export; '' when it had none
+  amount: number; // in cents
+  currency?: string;
+  paidBy: string;
+  paidTo?: string; // set for payments between people, which become settlements
+  shares: Record<string, number>; // in cents, keyed by person; people without a share are left out
+  rawLine: string;
+}
+
+export interface SharedLedger {
+  format: 'splitwise' | 'template';
+  people: string[];
+  rows: SharedLedgerRow[];
+  skippedRows: number[]; // 1-based line numbers of rows that couldn't be read
+}
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z]/g, '');
+
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency'];
+const TEMPLATE_COLUMNS = ['date', 'description', 'category', 'amount', 'paidby'];
+
+// Splitwise exports start "Date,Description,Category,Cost,Currency", then one column per person.
+export const isSplitwiseExport = (rows: string[][]): boolean =>
+  rows.length > 0 && SPLITWISE_COLUMNS.every((column, index) => normalizeHeader(rows[0][index] || '') === column);
+
+export const isSharedExpenseTemplate = (rows: string[][]): boolean =>
+  rows.length > 0 && TEMPLATE_COLUMNS.every((column, index) => normalizeHeader(rows[0][index] || '') === column);
+
+const toCents = (value: string): number | null => {
+  const amount = parseStatementAmount(value);
+  return amount === null ? null : Math.round(amount * 100);
+};
+
+// Splits cents evenly, giving leftover cents to the first people listed.
+const splitEvenly = (totalCents: number, people: string[]): Record<string, number> => {
+  const base = Math.floor(totalCents / people.length);
+  return Object.fromEntries(people.map((person, index) => [person, base + (index < totalCents - base * people.length ? 1 : 0)]));
+};
+
+/**
+ * Reads a Splitwise CSV export. Splitwise only exports what each person is up or down on an
+ * expense (what they paid minus their share), so with one payer the shares come out exactly:
+ * everyone who is down owes that much and the payer's share is what's left. When several people
+ * paid, the one who paid most is taken as the payer and what's left is split evenly between them.
+ * "Payment" rows are people paying each other back. The "Total balance" footer is ignored.
+ */
+export const parseSplitwiseExport = (rows: string[][]): SharedLedger => {
+  const people = rows[0].slice(SPLITWISE_COLUMNS.length).filter(Boolean);
+  const result: SharedLedgerRow[] = [];
+  const skippedRows: number[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const lineNumber = index + 2;
+    const [dateCell, description, category, costCell, currency] = row;
+    if (!dateCell && /total balance/i.test(description || '')) return;
+
+    const date = parseStatementDate(dateCell || '', 'YMD');
+    const amount = toCents(costCell || '');
+    const balances = people
+      .map((person, i) => ({ person, value: toCents(row[SPLITWISE_COLUMNS.length + i] || '') ?? 0 }))
+      .filter(b => b.value !== 0);
+    const paidMore = balances.filter(b => b.value > 0).sort((a, b) => b.value - a.value);
+    const owing = balances.filter(b => b.value < 0).sort((a, b) => a.value - b.value);
+    if (!date || !amount || amount < 0 || paidMore.length === 0) {
+      skippedRows.push(lineNumber);
+      return;
+    }
+
+    const base = { date, description: description || 'Splitwise expense', category: category || '', amount, currency: currency || undefined, rawLine: row.join(', ') };
+    if (/^payment$/i.test(category || '')) {
+      if (owing.length === 0) {
+        skippedRows.push(lineNumber);
+        return;
+      }
+      result.push({ ...base, paidBy: paidMore[0].person, paidTo: owing[0].person, shares: {} });
+      return;
+    }
+
+    const shares: Record<string, number> = Object.fromEntries(owing.map(b => [b.person, -b.value]));
+    const payersShare = amount + owing.reduce((sum, b) => sum + b.value, 0);
+    if (payersShare < 0) {
+      skippedRows.push(lineNumber);
+      return;
+    }
+    if (payersShare > 0) Object.assign(shares, splitEvenly(payersShare, paidMore.map(b => b.person)));
+    result.push({ ...base, paidBy: paidMore[0].person, shares });
+  });
+
+  return { format: 'splitwise', people, rows: result, skippedRows };
+};
+
+/**
+ * Reads the spreadsheet template: Date, Description, Category, Amount, Paid By, then one column
+ * per person holding their share. Dates are YYYY-MM-DD, or DD/MM/YYYY as Indian spreadsheets write them.
+ * Rows with no shares filled in are the payer's alone; shares that don't add up to the amount are skipped.
+ */
+export const parseSharedExpenseTemplate = (rows: string[][]): SharedLedger => {
+  const shareColumns = rows[0].slice(TEMPLATE_COLUMNS.length).map(p => p.trim());
+  const people = new Set<string>(shareColumns.filter(Boolean));
+  const result: SharedLedgerRow[] = [];
+  const skippedRows: number[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const lineNumber = index + 2;
+    const [dateCell, description, category, amountCell, paidByCell] = row;
+    const date = parseStatementDate(dateCell || '', 'YMD') || parseStatementDate(dateCell || '', 'DMY');
+    const amount = toCents(amountCell || '');
+    const paidBy = (paidByCell || '').trim();
+    if (!date || !amount || amount < 0 || !paidBy) {
+      skippedRows.push(lineNumber);
+      return;
+    }
+
+    const shares: Record<string, number> = {};
+    shareColumns.forEach((person, i) => {
+      const share = toCents(row[TEMPLATE_COLUMNS.length + i] || '');
+      if (person && share) shares[person] = share;
+    });
+    const sharesTotal = Object.values(shares).reduce((sum, share) => sum + share, 0);
+    if (sharesTotal === 0) {
+      shares[paidBy] = amount;
+    } else if (sharesTotal !== amount) {
+      skippedRows.push(lineNumber);
+      return;
+    }
+
+    people.add(paidBy);
+    result.push({ date, description: description || 'Shared expense', category: category || '', amount, paidBy, shares, rawLine: row.join(', ') });
+  });
+
+  return { format: 'template', people: [...people], rows: result, skippedRows };
+};
+
+const toCsvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// A blank template with a share column per member and one example row to copy.
+export const buildSharedExpenseTemplate = (memberNames: string[]): string => {
+  const header = ['Date', 'Description', 'Category', 'Amount', 'Paid By', ...memberNames];
+  const exampleShares = splitEvenly(120000, memberNames);
+  const example = ['2024-09-12', 'Groceries', 'Food', '1200.00', memberNames[0] || '', ...memberNames.map(name => (exampleShares[name] / 100).toFixed(2))];
+  return [header, example].map(row => row.map(toCsvCell).join(',')).join('\n');
+};
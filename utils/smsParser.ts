@@ -0,0 +1,104 @@
+import { parseStatementAmount, parseStatementDate, StatementTransaction } from './csvImport';
+
+const AMOUNT_PATTERNS = [
+  /(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d+)?)/i,
+  // SBI leaves out the currency: "debited by 450.0".
+  /(?:debited|credited)\s+(?:by|for|with)\s+([\d,]+(?:\.\d+)?)/i,
+];
+
+const DEBIT_WORDS = /\b(debited|debit|sent|spent|paid|withdrawn|purchase|transferred)\b/i;
+const CREDIT_WORDS = /\b(credited|received|deposited|refund(?:ed)?)\b/i;
+
+const ACCOUNT_PATTERN = /\b(?:a\/c|ac|acct|account|card)\b(?:\s*no\.?)?[^\dxX*]{0,20}[xX*]+\s?(\d{3,6})\b/i;
+const VPA_PATTERN = /\b([a-z0-9][a-z0-9.\-_]*@[a-z]{2,})\b/i;
+// UPI and IMPS reference numbers are 12 digits; some banks print shorter NEFT/card references.
+const REFERENCE_PATTERN = /\b(?:upi\s*ref(?:\s*no)?|ref(?:\s*no)?|refno|rrn|upi(?:\/p2[am])?)[\s:.#\/-]*(\d{9,12})\b/i;
+
+// Tried in order; each captures the name of whoever was paid or paid us.
+const PAYEE_PATTERNS = [
+  /;\s*([A-Za-z][\w .&'-]*?)\s+credited\b/i, // ICICI: "...; ZOMATO credited"
+  /\bUPI\/P2[AM]\/\d+\/([A-Za-z][\w .&'-]*?)(?=\/|\s+not\b|\.|$)/i, // Axis: "UPI/P2M/423456789012/ZOMATO"
+  /\btrf\s+to\s+([A-Za-z][\w .&'-]*?)(?=\s+ref|\s+on\b|\.|$)/i, // SBI: "trf to ZOMATO Refno"
+  /\b(?:to|at|towards)\s+(?:vpa\s+)?([A-Za-z][\w .&'@-]*?)(?=\s+on\b|\s+ref|\s+upi|\.\s|\.$|;|,|$)/i,
+  /\b(?:neft|imps|rtgs)[\s\/-]+([A-Za-z][\w .&'-]*?)(?=\s+ref|\.|$)/i, // "credited ... - NEFT SALARY ACME"
+  /\bfrom\s+(?:vpa\s+)?([A-Za-z][\w .&'@-]*?)(?=\s+on\b|\s+ref|\s+upi|\.\s|\.$|;|,|$)/i,
+];
+
+// Words that end up in a payee capture but are really the bank talking about its own account.
+const NOT_A_PAYEE = /^(your|a\/c|ac|acct|account|card|hdfc bank|sbi|icici bank|axis bank|kotak bank|bank)\b/i;
+
+const MONTH_DATE = /\b(\d{1,2})[\s\-\/]?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s\-\/,]*(\d{4}|\d{2})\b/i;
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const NUMERIC_DATE = /\b(\d{1,2})[\-\/.](\d{1,2})[\-\/.](\d{4}|\d{2})\b/;
+
+// Indian banks write dates day first, e.g. "12-09-24", "12/09/2024", "12Sep24" or "12-Sep-2024".
+const parseMessageDate = (message: string): string | null => {
+  const iso = message.match(ISO_DATE);
+  if (iso) return parseStatementDate(iso[0], 'YMD');
+  const named = message.match(MONTH_DATE);
+  if (named) return parseStatementDate(`${named[1]}-${named[2]}-${named[3]}`, 'DMY');
+  const numeric = message.match(NUMERIC_DATE);
+  if (numeric) return parseStatementDate(numeric[0], 'DMY');
+  return null;
+};
+
+const findPayee = (message: string): string | undefined => {
+  for (const pattern of PAYEE_PATTERNS) {
+    const name = message.match(pattern)?.[1]?.trim();
+    if (name && !NOT_A_PAYEE.test(name) && !VPA_PATTERN.test(name)) return name.replace(/\s+/g, ' ');
+  }
+  return undefined;
+};
+
+/**
+ * Reads one bank or UPI alert, e.g. "Rs.450.00 debited from A/c XX1234 to VPA zomato@hdfc on 12-09-24".
+ * Returns null for messages that aren't a debit or credit, such as OTPs and balance alerts.
+ * Alerts without a date are taken to be from `today`. The UPI reference, when present, becomes
+ * the externalId so the same alert pasted twice is recognised.
+ */
+export const parseBankMessage = (message: string, today: string): StatementTransaction | null => {
+  const text = message.replace(/\s+/g, ' ').trim();
+  if (!text || /\botp\b|one time password/i.test(text)) return null;
+
+  const debitIndex = text.search(DEBIT_WORDS);
+  const creditIndex = text.search(CREDIT_WORDS);
+  if (debitIndex < 0 && creditIndex < 0) return null;
+  // "A/c debited ...; ZOMATO credited" is a debit, so whichever word comes first wins.
+  const type = creditIndex < 0 || (debitIndex >= 0 && debitIndex < creditIndex) ? 'debit' : 'credit';
+
+  let amount: number | null = null;
+  for (const pattern of AMOUNT_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      amount = parseStatementAmount(match[1]);
+      break;
+    }
+  }
+  if (!amount) return null;
+
+  const vpa = text.match(VPA_PATTERN)?.[1]?.toLowerCase();
+  const payee = findPayee(text);
+  const reference = text.match(REFERENCE_PATTERN)?.[1];
+
+  return {
+    date: parseMessageDate(text) || today,
+    description: payee && vpa ? `${payee} (${vpa})` : payee || vpa || (type === 'debit' ? 'Bank debit' : 'Bank credit'),
+    amount: Math.abs(amount),
+    type,
+    externalId: reference ? `upi:${reference}` : undefined,
+    metadata: {
+      reference,
+      accountNumber: text.match(ACCOUNT_PATTERN)?.[1], // the masked digits the bank shows, e.g. "1234"
+      rawLine: text,
+    },
+  };
+};
+
+/**
+ * Splits pasted text into separate alerts. Messages are separated by blank lines when there are
+ * any, otherwise each line is taken to be one message (as in most SMS exports).
+ */
+export const splitBankMessages = (text: string): string[] => {
+  const separator = /\n\s*\n/.test(text) ? /\n\s*\n/ : /\r?\n/;
+  return text.split(separator).map(m => m.trim()).filter(Boolean);
+};
@@ -0,0 +1,79 @@
+import { Member, Split, SplitMode, SplitTemplate } from '../types';
+
+export interface SplitWeight {
+  memberId: string;
+  weight: number; // a percentage, a share count, or 1/0 for included/excluded
+}
+
+/**
+ * Divides a total in cents in proportion to the weights, so the result always adds up exactly.
+ * Each member first gets the rounded-down amount; leftover cents then go one at a time to the
+ * largest fractional remainders, with ties going to whoever comes first in `weights`.
+ */
+export const allocateByWeights = (totalCents: number, weights: SplitWeight[]): Split[] => {
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(w.weight, 0), 0);
+  if (totalCents <= 0 || totalWeight <= 0) {
+    return weights.map(w => ({ memberId: w.memberId, amount: 0 }));
+  }
+
+  const exact = weights.map(w => (totalCents * Math.max(w.weight, 0)) / totalWeight);
+  const amounts = exact.map(Math.floor);
+  let leftover = totalCents - amounts.reduce((sum, a) => sum + a, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - amounts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    amounts[index] += 1;
+    leftover -= 1;
+  }
+
+  return weights.map((w, index) => ({ memberId: w.memberId, amount: amounts[index], share: w.weight }));
+};
+
+/**
+ * Returns why the weights can't be used for the mode, or null if they can.
+ */
+export const validateSplitWeights = (mode: SplitMode, weights: SplitWeight[]): string | null => {
+  if (weights.some(w => w.weight < 0)) return 'Splits cannot be negative.';
+  const total = weights.reduce((sum, w) => sum + w.weight, 0);
+  switch (mode) {
+    case 'percentage': {
+      const rounded = Math.round(total * 100) / 100;
+      return rounded === 100 ? null : `Percentages add up to ${rounded}%, not 100%.`;
+    }
+    case 'shares':
+      return total > 0 ? null : 'Give at least one member a share.';
+    case 'equal':
+      return total > 0 ? null : 'Include at least one member.';
+    case 'except':
+      return total > 0 ? null : "Everyone can't be left out.";
+    default:
+      return null;
+  }
+};
+
+// Recovers the weights a split was saved with, defaulting members without a saved share to 0.
+export const getSavedWeights = (splits: Split[], memberIds: string[]): Record<string, number> => {
+  return Object.fromEntries(memberIds.map(id => [id, splits.find(s => s.memberId === id)?.share ?? 0]));
+};
+
+// Splits an amount the way a saved template says, leaving out members whose share comes to nothing.
+export const applySplitTemplate = (totalCents: number, template: SplitTemplate, members: Member[]): Split[] => {
+  const weights = members.map(m => ({ memberId: m.id, weight: template.weights[m.id] || 0 }));
+  return allocateByWeights(totalCents, weights).filter(s => s.amount > 0);
+};
+
+// e.g. "Asha 60% · Ravi 40%", "Asha 2× · Ravi 1×" or "Equally: Asha, Ravi".
+export const describeSplitTemplate = (template: SplitTemplate, members: Member[]): string => {
+  const included = members.filter(m => (template.weights[m.id] || 0) > 0);
+  switch (template.mode) {
+    case 'percentage':
+      return included.map(m => `${m.name} ${template.weights[m.id]}%`).join(' · ');
+    case 'shares':
+      return included.map(m => `${m.name} ${template.weights[m.id]}×`).join(' · ');
+    default:
+      return `Equally: ${included.map(m => m.name).join(', ')}`;
+  }
+};
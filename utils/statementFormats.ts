@@ -0,0 +1,150 @@
+import { StatementDetails } from '../types';
+import { StatementTransaction } from './csvImport';
+
+export interface ParsedStatementFile extends StatementDetails {
+  transactions: StatementTransaction[];
+}
+
+// Shows only the last four digits, e.g. "••1234".
+export const maskAccountNumber = (accountNumber: string) => `••${accountNumber.slice(-4)}`;
+
+// --- OFX / QFX ---
+
+// Reads a leaf element. OFX 1.x (SGML) leaves have no closing tag, OFX 2.x (XML) ones do.
+const readOfxValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeXmlEntities(match[1].trim()) : undefined;
+};
+
+const decodeXmlEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// OFX dates look like 20240905, 20240905120000 or 20240905120000.000[-5:EST]; only the date matters here.
+const parseOfxDate = (value: string | undefined): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day));
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+};
+
+export const isOfxContent = (text: string) => /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+
+/**
+ * Parses an OFX or QFX statement (bank or credit card, OFX 1.x SGML or 2.x XML).
+ * Each transaction's FITID becomes its externalId, scoped to the account so that re-importing
+ * the same download can be recognised.
+ */
+export const parseOfx = (text: string): ParsedStatementFile => {
+  const accountNumber = readOfxValue(text, 'ACCTID');
+  const transactions: StatementTransaction[] = [];
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  blocks.forEach(block => {
+    const date = parseOfxDate(readOfxValue(block, 'DTPOSTED') || readOfxValue(block, 'DTUSER'));
+    const amount = parseFloat((readOfxValue(block, 'TRNAMT') || '').replace(',', '.'));
+    if (!date || isNaN(amount) || amount === 0) return;
+
+    const name = readOfxValue(block, 'NAME') || readOfxValue(block, 'PAYEE') || '';
+    const memo = readOfxValue(block, 'MEMO') || '';
+    // Memos often repeat or extend the name, so only add them when they say something new.
+    const description = memo && !name.toLowerCase().includes(memo.toLowerCase()) ? `${name} ${memo}`.trim() : name || memo;
+    const fitId = readOfxValue(block, 'FITID');
+
+    transactions.push({
+      date,
+      description: description || readOfxValue(block, 'TRNTYPE') || 'Unknown transaction',
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'debit' : 'credit',
+      externalId: fitId ? `ofx:${accountNumber || ''}:${fitId}` : undefined,
+      metadata: {
+        reference: readOfxValue(block, 'CHECKNUM') || readOfxValue(block, 'REFNUM') || fitId,
+        accountNumber,
+        rawLine: block.replace(/\s*\n\s*/g, ' ').trim(),
+      },
+    });
+  });
+
+  // OFX gives the closing (ledger) balance but no opening one, so these statements can't be reconciled by sum.
+  const ledgerIndex = text.search(/<LEDGERBAL>/i);
+  const ledgerBalance = ledgerIndex >= 0 ? parseFloat(readOfxValue(text.slice(ledgerIndex), 'BALAMT') || '') : NaN;
+  return {
+    transactions,
+    accountNumber,
+    closingBalance: isNaN(ledgerBalance) ? undefined : Math.round(ledgerBalance * 100),
+    periodStart: parseOfxDate(readOfxValue(text, 'DTSTART')) || undefined,
+    periodEnd: parseOfxDate(readOfxValue(text, 'DTEND')) || undefined,
+  };
+};
+
+// --- QIF ---
+
+export const isQifContent = (text: string) => /^\s*!Type:/i.test(text);
+
+// QIF dates are month-first by convention, e.g. 9/5/2024, 09/05'24 or 9-5-24; day-first is used when unambiguous.
+const parseQifDate = (value: string): string | null => {
+  const parts = value.trim().replace(/'/g, '/').split(/[\/\-.]/).map(p => p.trim()).filter(Boolean);
+  if (parts.length !== 3) return null;
+  let [month, day] = parts.map(Number);
+  let year = Number(parts[2]);
+  if (month > 12 && day <= 12) [month, day] = [day, month];
+  if (parts[2].length <= 2) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Parses a QIF bank or credit card export. QIF has no transaction ids, so the externalId is
+ * built from the cheque/reference number when present, otherwise from the date, amount and payee
+ * plus a counter for identical rows, which stays stable when the same file is imported again.
+ */
+export const parseQif = (text: string): ParsedStatementFile => {
+  const transactions: StatementTransaction[] = [];
+  const seen = new Map<string, number>();
+  let record: Record<string, string> = {};
+  let rawLines: string[] = [];
+
+  const finishRecord = () => {
+    const date = parseQifDate(record.D || '');
+    const amount = parseFloat((record.T || record.U || '').replace(/,/g, ''));
+    if (date && !isNaN(amount) && amount !== 0) {
+      const description = [record.P, record.M].filter(Boolean).join(' ').trim();
+      const key = record.N
+        ? `qif:ref:${record.N}`
+        : `qif:${date}:${amount}:${(record.P || '').toLowerCase()}`;
+      const occurrence = (seen.get(key) || 0) + 1;
+      seen.set(key, occurrence);
+      transactions.push({
+        date,
+        description: description || 'Unknown transaction',
+        amount: Math.abs(amount),
+        type: amount < 0 ? 'debit' : 'credit',
+        externalId: occurrence > 1 ? `${key}:${occurrence}` : key,
+        metadata: { reference: record.N, rawLine: rawLines.join('\n') },
+      });
+    }
+    record = {};
+    rawLines = [];
+  };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) return;
+    if (line === '^') {
+      finishRecord();
+      return;
+    }
+    rawLines.push(line);
+    const code = line[0];
+    // Split lines (S/E/$) describe categories within a transaction and are not needed here.
+    if (!(code in record)) record[code] = line.slice(1).trim();
+  });
+  if (Object.keys(record).length > 0) finishRecord();
+
+  return { transactions };
+};